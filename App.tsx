@@ -4,6 +4,8 @@ import {
   FullPage,
   Section,
   NavigationDots,
+  Menu,
+  MenuItem,
   useFullPage,
   FullPageDirection,
   FullPageRef,
@@ -74,26 +76,30 @@ const Header = ({
         >
           Mode: {direction}
         </button>
-        <nav className="hidden md:flex gap-6">
-          <button
-            onClick={() => goTo(1)}
+        {/* Menu items highlight themselves as their section becomes active */}
+        <Menu className="hidden md:flex gap-6">
+          <MenuItem
+            page={1}
             className="hover:underline hover:text-cyan-400 transition-colors"
+            activeClassName="text-cyan-400"
           >
             Features
-          </button>
-          <button
-            onClick={() => goTo(2)}
+          </MenuItem>
+          <MenuItem
+            page={2}
             className="hover:underline hover:text-cyan-400 transition-colors"
+            activeClassName="text-cyan-400"
           >
             Gallery
-          </button>
-          <button
-            onClick={() => goTo(3)}
+          </MenuItem>
+          <MenuItem
+            page={3}
             className="hover:underline hover:text-cyan-400 transition-colors"
+            activeClassName="text-cyan-400"
           >
             Contact
-          </button>
-        </nav>
+          </MenuItem>
+        </Menu>
       </div>
     </header>
   );
@@ -1,32 +1,301 @@
-import React from "react";
+import React, { useContext, useEffect, useRef } from "react";
 import { useFullPage } from "./FullPageContext";
+import { PositionStoreContext } from "./positionStore";
+import {
+  AutoplayControlProps,
+  NavigationDotsProps,
+  PageCounterProps,
+  PrevNextArrowsProps,
+  ProgressBarProps,
+} from "./types";
+import { cx } from "./utils";
+import { useNavigation } from "./useNavigation";
 
-export const NavigationDots: React.FC = () => {
-  const { currentPage, count, goTo, direction } = useFullPage();
+/**
+ * NavigationDots
+ * One dot per Section, exposed as a tablist (see useNavigation). Dots show
+ * their Section's `navigationTooltip` on hover and focus, and can be pinned
+ * to any edge or replaced with `renderDot`.
+ */
+export const NavigationDots: React.FC<NavigationDotsProps> = ({
+  position,
+  showActiveTooltip = false,
+  renderDot,
+  className,
+  classNames,
+  styles,
+}) => {
+  const { direction } = useFullPage();
+  const edge = position ?? (direction === "vertical" ? "right" : "bottom");
+  const isVertical = edge === "left" || edge === "right";
+  const { items, goTo, getListProps, getItemProps } = useNavigation(
+    isVertical ? "vertical" : "horizontal"
+  );
+
+  return (
+    <div
+      {...(renderDot ? {} : getListProps())}
+      className={cx(
+        "rfs-dots",
+        `rfs-dots--${edge}`,
+        className,
+        classNames?.root
+      )}
+      style={styles?.root}
+    >
+      {items.map(({ index, isActive, tooltip }) =>
+        renderDot ? (
+          <React.Fragment key={index}>
+            {renderDot(index, isActive, goTo)}
+          </React.Fragment>
+        ) : (
+          // The wrapper only positions the tooltip; tabs stay direct children
+          <div
+            key={index}
+            role="none"
+            className={cx("rfs-dots__item", classNames?.item)}
+            style={styles?.item}
+          >
+            <button
+              type="button"
+              {...getItemProps(index)}
+              className={cx(
+                "rfs-dot",
+                isActive && "rfs-dot--active",
+                classNames?.dot,
+                isActive && classNames?.activeDot
+              )}
+              style={{
+                ...styles?.dot,
+                ...(isActive ? styles?.activeDot : undefined),
+              }}
+            />
+            {tooltip && (
+              <span
+                aria-hidden="true"
+                className={cx(
+                  "rfs-dot__tooltip",
+                  isActive && showActiveTooltip && "rfs-dot__tooltip--visible",
+                  classNames?.tooltip
+                )}
+                style={styles?.tooltip}
+              >
+                {tooltip}
+              </span>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+/**
+ * AutoplayControl
+ * Play/pause toggle for autoplay. The label names the action the button
+ * performs, so screen readers announce "Pause autoplay" while it plays.
+ */
+export const AutoplayControl: React.FC<AutoplayControlProps> = ({
+  className,
+  classNames,
+  styles,
+}) => {
+  const { isPlaying, play, pause } = useFullPage();
+
+  return (
+    <button
+      type="button"
+      onClick={isPlaying ? pause : play}
+      aria-label={isPlaying ? "Pause autoplay" : "Start autoplay"}
+      className={cx("rfs-control rfs-autoplay", className, classNames?.root)}
+      style={styles?.root}
+    >
+      <svg
+        viewBox="0 0 24 24"
+        className={cx("rfs-control__icon", classNames?.icon)}
+        style={styles?.icon}
+        aria-hidden="true"
+        focusable="false"
+      >
+        {isPlaying ? (
+          <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+        ) : (
+          <path d="M8 5v14l11-7z" />
+        )}
+      </svg>
+    </button>
+  );
+};
+
+/**
+ * ProgressBar
+ * How far through the deck the reader is. It follows the live position
+ * (drags, springs and transitions frame by frame) instead of jumping per
+ * page, writing to the DOM directly rather than re-rendering.
+ */
+export const ProgressBar: React.FC<ProgressBarProps> = ({
+  position = "top",
+  className,
+  classNames,
+  styles,
+}) => {
+  const { currentPage, count } = useFullPage();
+  const positionStore = useContext(PositionStoreContext);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+
+    const update = () => {
+      const livePosition = positionStore?.get() ?? currentPage;
+      const progress =
+        count > 1 ? Math.min(Math.max(livePosition / (count - 1), 0), 1) : 1;
+      bar.style.transform = `scaleX(${progress})`;
+    };
+
+    update();
+    return positionStore?.subscribe(update);
+  }, [positionStore, currentPage, count]);
 
+  return (
+    <div
+      role="progressbar"
+      aria-label="Progress"
+      aria-valuemin={1}
+      aria-valuemax={count}
+      aria-valuenow={currentPage + 1}
+      aria-valuetext={`Section ${currentPage + 1} of ${count}`}
+      className={cx(
+        "rfs-progress",
+        `rfs-progress--${position}`,
+        className,
+        classNames?.root
+      )}
+      style={styles?.root}
+    >
+      <div
+        ref={barRef}
+        className={cx("rfs-progress__bar", classNames?.bar)}
+        style={styles?.bar}
+      />
+    </div>
+  );
+};
+
+/**
+ * PageCounter
+ * The current page over the page count, e.g. "03 / 07". Screen readers get
+ * "Section 3 of 7" instead of the visual digits.
+ */
+export const PageCounter: React.FC<PageCounterProps> = ({
+  pad = 2,
+  separator = "/",
+  className,
+  classNames,
+  styles,
+}) => {
+  const { currentPage, count } = useFullPage();
+  const format = (value: number) => String(value).padStart(pad, "0");
+
+  return (
+    <div
+      className={cx("rfs-counter", className, classNames?.root)}
+      style={styles?.root}
+    >
+      <span className="rfs-sr-only">{`Section ${
+        currentPage + 1
+      } of ${count}`}</span>
+      <span
+        aria-hidden="true"
+        className={cx("rfs-counter__current", classNames?.current)}
+        style={styles?.current}
+      >
+        {format(currentPage + 1)}
+      </span>
+      <span
+        aria-hidden="true"
+        className={cx("rfs-counter__separator", classNames?.separator)}
+        style={styles?.separator}
+      >
+        {separator}
+      </span>
+      <span
+        aria-hidden="true"
+        className={cx("rfs-counter__total", classNames?.total)}
+        style={styles?.total}
+      >
+        {format(count)}
+      </span>
+    </div>
+  );
+};
+
+// Chevron paths by the way each arrow points
+const ARROW_PATHS = {
+  up: "M7.41 15.41 12 10.83l4.59 4.58L18 14l-6-6-6 6z",
+  down: "M7.41 8.59 12 13.17l4.59-4.58L18 10l-6 6-6-6z",
+  left: "M15.41 16.59 10.83 12l4.58-4.59L14 6l-6 6 6 6z",
+  right: "M8.59 16.59 13.17 12 8.59 7.41 10 6l6 6-6 6z",
+};
+
+/**
+ * PrevNextArrows
+ * Previous/next page buttons, pointing along the deck's direction. Each is
+ * disabled at its end of the deck, unless the deck loops there.
+ */
+export const PrevNextArrows: React.FC<PrevNextArrowsProps> = ({
+  className,
+  classNames,
+  styles,
+}) => {
+  const { prev, next, hasPrev, hasNext, direction } = useFullPage();
   const isVertical = direction === "vertical";
 
-  const containerClasses = isVertical
-    ? "fixed right-6 top-1/2 -translate-y-1/2 flex flex-col gap-4 z-50"
-    : "fixed bottom-6 left-1/2 -translate-x-1/2 flex flex-row gap-4 z-50";
+  const renderIcon = (path: string) => (
+    <svg
+      viewBox="0 0 24 24"
+      className={cx("rfs-control__icon", classNames?.icon)}
+      style={styles?.icon}
+      aria-hidden="true"
+      focusable="false"
+    >
+      <path d={path} />
+    </svg>
+  );
 
   return (
-    <div className={containerClasses}>
-      {Array.from({ length: count }).map((_, index) => (
-        <button
-          key={index}
-          onClick={() => goTo(index)}
-          aria-label={`Go to section ${index + 1}`}
-          className={`
-            w-3 h-3 rounded-full transition-all duration-300 ease-in-out
-            ${
-              currentPage === index
-                ? "bg-white scale-125 shadow-[0_0_10px_rgba(255,255,255,0.8)]"
-                : "bg-white/40 hover:bg-white/70 hover:scale-110"
-            }
-          `}
-        />
-      ))}
+    <div
+      role="group"
+      aria-label="Section navigation"
+      className={cx(
+        "rfs-arrows",
+        `rfs-arrows--${direction}`,
+        className,
+        classNames?.root
+      )}
+      style={styles?.root}
+    >
+      <button
+        type="button"
+        onClick={prev}
+        disabled={!hasPrev}
+        aria-label="Previous section"
+        className={cx("rfs-control rfs-arrows__prev", classNames?.prev)}
+        style={styles?.prev}
+      >
+        {renderIcon(isVertical ? ARROW_PATHS.up : ARROW_PATHS.left)}
+      </button>
+      <button
+        type="button"
+        onClick={next}
+        disabled={!hasNext}
+        aria-label="Next section"
+        className={cx("rfs-control rfs-arrows__next", classNames?.next)}
+        style={styles?.next}
+      >
+        {renderIcon(isVertical ? ARROW_PATHS.down : ARROW_PATHS.right)}
+      </button>
     </div>
   );
 };
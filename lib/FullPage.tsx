@@ -7,9 +7,58 @@ import React, {
   forwardRef,
   useImperativeHandle,
   useMemo,
+  useContext,
+  CSSProperties,
 } from "react";
-import { FullPageProps, FullPageRef } from "./types";
+import {
+  FullPageMoveDirection,
+  FullPageProps,
+  FullPageRef,
+  FullPageStatus,
+} from "./types";
 import { FullPageContext } from "./FullPageContext";
+import { FullPageTreeContext, registerFullPage } from "./FullPageRegistry";
+import { buildHash, parseHash } from "./anchors";
+import { SectionContext } from "./SectionContext";
+import { applyStyles, builtInEffects, resolveEffect } from "./effects";
+import {
+  animateSpring,
+  animateTween,
+  toCssEasing,
+  toEasingFunction,
+} from "./easing";
+import { PositionStoreContext, createPositionStore } from "./positionStore";
+import { useMediaQuery } from "./useMediaQuery";
+import { createWheelGesture, normalizeWheelDelta } from "./wheelGesture";
+import {
+  getDefaultKeyMap,
+  getKeyAction,
+  isDialogOpen,
+  isKeyForTarget,
+} from "./keyboard";
+import {
+  claimDrag,
+  claimEvent,
+  isEventClaimed,
+  isFocusInNestedDeck,
+  releaseDrag,
+} from "./ownership";
+import {
+  DEFAULT_AUTOPLAY,
+  DEFAULT_EASING,
+  buildResponsiveQuery,
+  countSlides,
+  getCrossDirection,
+  getTrackTransform,
+  canScrollFurther,
+  isMarkedElement,
+  isPromiseLike,
+  setHidden,
+  useIsomorphicLayoutEffect,
+  cx,
+  DirectionSwitches,
+  setDirectionSwitch,
+} from "./utils";
 
 /**
  * FullPage Component
@@ -18,118 +67,1379 @@ import { FullPageContext } from "./FullPageContext";
  * - Uses requestAnimationFrame for drag updates (60fps).
  * - Memoizes children and context to prevent unnecessary re-renders.
  * - Forces GPU acceleration via CSS.
+ *
+ * Sections containing <Slide> children get a second track on the cross axis,
+ * so the position is 2D: (section, slide).
+ *
+ * When Sections have anchors, the position is mirrored to `location.hash`
+ * so deep links, refreshes and the back button land on the right section.
+ *
+ * Effects other than "slide" keep the track still and stack the Sections,
+ * styling each one from its progress relative to the current position.
+ *
+ * Below `responsiveWidth` / `responsiveHeight` the deck stops snapping and
+ * falls back to natural document scrolling, tracking the visible Section.
+ *
+ * Decks can be nested (e.g. a horizontal tour inside a Section): the inner
+ * deck fills its Section and gets first claim on wheel, drag and keyboard
+ * input, handing it to the outer deck at its edges.
+ *
+ * Looping decks render a copy of the opposite edge Section at each looping
+ * end of the track, so the wraparound animates forward, then jumps back.
  */
 export const FullPage = forwardRef<FullPageRef, FullPageProps>(
   (
     {
       children,
-      duration = 700,
+      duration: durationProp = 700,
+      easing = DEFAULT_EASING,
+      spring: springProp,
+      wheelSensitivity = 50,
+      wheelDebounce = 200,
       onLeave,
-      className = "",
+      onSlideLeave,
+      beforeLeave,
+      afterLoad,
+      afterRender,
+      afterResize,
+      className,
+      classNames,
+      styles,
       direction = "vertical",
-    },
+      effect = "slide",
+      responsiveWidth,
+      responsiveHeight,
+      responsiveQuery,
+      anchors,
+      history = "push",
+      loop = false,
+      loopTop,
+      loopBottom,
+      autoplay = false,
+      ariaLabel,
+      reducedMotion = "auto",
+      keyboardScope: keyboardScopeProp,
+      keyMap,
+      id,
+      renderWindow,
+      initialPage = 0,
+      activePage,
+      defaultPage = initialPage,
+      onPageChange,
+      onSectionsChange,
+    }: FullPageProps,
     ref
   ) => {
-    const [currentPage, setCurrentPage] = useState(0);
-    const [isScrolling, setIsScrolling] = useState(false);
-    const containerRef = useRef<HTMLDivElement>(null);
-    const innerRef = useRef<HTMLDivElement>(null);
-
     // Performance: Memoize children splitting logic to avoid re-calculation on every render
-    const { slides, overlays } = useMemo(() => {
+    const { sections, overlays } = useMemo(() => {
       const childrenArray = React.Children.toArray(children) as ReactElement[];
       const s: ReactElement[] = [];
       const o: ReactElement[] = [];
 
       childrenArray.forEach((child) => {
         // Check for the static property we added to Section
-        if (
-          React.isValidElement(child) &&
-          (child.type as any).isFullPageSection
-        ) {
+        if (isMarkedElement(child, "isFullPageSection")) {
           s.push(child);
         } else {
           o.push(child);
         }
       });
-      return { slides: s, overlays: o };
+      return { sections: s, overlays: o };
     }, [children]);
 
-    const count = slides.length;
+    const anchorList = useMemo(
+      () =>
+        sections.map(
+          (section, index) => section.props.anchor ?? anchors?.[index]
+        ),
+      [sections, anchors]
+    );
+    const hasAnchors = anchorList.some(Boolean);
+    const navigationTooltips = useMemo(
+      () => sections.map((section) => section.props.navigationTooltip),
+      [sections]
+    );
+
+    // Identity of each Section across renders: its id, anchor or React key
+    // (which falls back to the position for unkeyed children)
+    const sectionIds = useMemo(
+      () =>
+        sections.map(
+          (section, index) =>
+            section.props.id ??
+            anchorList[index] ??
+            String(section.key ?? index)
+        ),
+      [sections, anchorList]
+    );
+
+    // Controlled decks show `activePage`, and only ask to move via onPageChange
+    const isControlled = activePage !== undefined;
+    const clampPage = (page: number) =>
+      Math.min(Math.max(page, 0), Math.max(sections.length - 1, 0));
+
+    // The first render only depends on props, so server and client agree;
+    // a deep link in the hash is applied right after mount
+    const [currentPage, setCurrentPage] = useState(() =>
+      clampPage(activePage ?? defaultPage)
+    );
+    // Where the deck starts; a location without a deep link leads back here
+    const startPage = useRef(currentPage);
+    // Remembered slide per section, so returning to a section keeps its slide
+    const [slideIndexes, setSlideIndexes] = useState<number[]>([]);
+    // Transitions stay off until the mounted position has been painted
+    const [isInstant, setIsInstant] = useState(true);
+    const [status, setStatus] = useState<FullPageStatus>("idle");
+    const isScrolling = status === "animating";
+    const containerRef = useRef<HTMLDivElement>(null);
+    const innerRef = useRef<HTMLDivElement>(null);
+    const slideTrackRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const sectionRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const backgroundRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+    const slideCounts = useMemo(
+      () => sections.map((section) => countSlides(section.props.children)),
+      [sections]
+    );
+    const scrollableFlags = useMemo(
+      () => sections.map((section) => Boolean(section.props.scrollable)),
+      [sections]
+    );
+
+    // Set when this deck is rendered inside another one
+    const parentDeck = useContext(FullPageContext);
+    const isNested = parentDeck !== undefined;
+    const ancestorDecks = useContext(FullPageTreeContext);
+    // A nested deck only takes keys while it has focus
+    const keyboardScope =
+      keyboardScopeProp ?? (isNested ? "focus-within" : "window");
+
+    const count = sections.length;
     const isVertical = direction === "vertical";
+    const slideDirection = getCrossDirection(direction);
+    const currentSlide = slideIndexes[currentPage] ?? 0;
+    const slideCount = slideCounts[currentPage] ?? 0;
+    const isCurrentScrollable = scrollableFlags[currentPage] ?? false;
+
+    // --- Scroll Locks ---
+    // The current Section's `lockNext` / `lockPrev` stop every page change
+    // that way; the switches below only gate one kind of user input
+    const sectionLocks: DirectionSwitches = {
+      next: Boolean(sections[currentPage]?.props.lockNext),
+      prev: Boolean(sections[currentPage]?.props.lockPrev),
+    };
+    const [allowScrolling, setAllowScrollingState] =
+      useState<DirectionSwitches>({ next: true, prev: true });
+    const [keyboardScrolling, setKeyboardScrollingState] =
+      useState<DirectionSwitches>({ next: true, prev: true });
+
+    const setAllowScrolling = useCallback(
+      (allowed: boolean, moveDirection?: FullPageMoveDirection) =>
+        setAllowScrollingState((switches) =>
+          setDirectionSwitch(switches, allowed, moveDirection)
+        ),
+      []
+    );
+    const setKeyboardScrolling = useCallback(
+      (allowed: boolean, moveDirection?: FullPageMoveDirection) =>
+        setKeyboardScrollingState((switches) =>
+          setDirectionSwitch(switches, allowed, moveDirection)
+        ),
+      []
+    );
+
+    // Whether an input with these switches may move the deck this way.
+    // Section locks only hold pages: slides stay inside the Section.
+    const canInputMove = (
+      switches: DirectionSwitches,
+      moveDirection: FullPageMoveDirection,
+      axis: "page" | "slide"
+    ) =>
+      switches[moveDirection] &&
+      (axis === "slide" || !sectionLocks[moveDirection]);
+    const isResponsive = useMediaQuery(
+      responsiveQuery ?? buildResponsiveQuery(responsiveWidth, responsiveHeight)
+    );
+
+    // --- Reduced Motion ---
+    // Movement becomes a short crossfade: no sliding, no springs, and the
+    // pointer no longer drags the content along
+    const prefersReducedMotion = useMediaQuery(
+      reducedMotion === "auto" ? "(prefers-reduced-motion: reduce)" : null
+    );
+    const isReducedMotion = reducedMotion === "always" || prefersReducedMotion;
+    const duration = isReducedMotion
+      ? Math.min(durationProp, 300)
+      : durationProp;
+    const spring = isReducedMotion ? false : springProp;
+    // Slides have no crossfade, so they switch instantly
+    const slideDuration = isReducedMotion ? 0 : duration;
+    const scrollBehavior = isReducedMotion ? "auto" : "smooth";
+
+    // Natural-flow mode lays Sections out in the document, without effects
+    const effectFn = isResponsive
+      ? null
+      : isReducedMotion
+      ? builtInEffects.fade
+      : resolveEffect(effect);
+    const cssEasing = useMemo(() => toCssEasing(easing), [easing]);
+
+    // --- Loop ---
+    const canLoopTop = (loopTop ?? loop) && count > 1;
+    const canLoopBottom = (loopBottom ?? loop) && count > 1;
+    // Edge clones only exist on the moving track; effects restyle in place
+    const hasTrackClones = !effectFn && !isResponsive;
+    const trackOffset = hasTrackClones && canLoopTop ? 1 : 0;
+    // Set while the track animates onto a clone, before jumping back
+    const [loopWrap, setLoopWrap] = useState<FullPageMoveDirection | null>(
+      null
+    );
+    const pageTrackIndex =
+      loopWrap === "next"
+        ? count + trackOffset
+        : loopWrap === "prev"
+        ? 0
+        : currentPage + trackOffset;
 
     // --- Drag State ---
     const isDragging = useRef(false);
-    const startPos = useRef(0); // Generic start position (X or Y)
+    const startPos = useRef({ x: 0, y: 0 });
     const startTime = useRef(0);
-    const currentDelta = useRef(0); // Generic delta
+    const currentDelta = useRef(0); // Delta along the locked drag axis
+    // Locked once the pointer moves far enough: pages or the section's slides
+    const dragAxis = useRef<"page" | "slide" | null>(null);
+    // Scrollable section the gesture started in; it gets first claim on the drag
+    const dragScrollSource = useRef<HTMLElement | null>(null);
 
     // Performance: rAF Reference to throttle visual updates
     const rafRef = useRef<number | null>(null);
     const latestDragPos = useRef<{ x: number; y: number } | null>(null);
 
-    // Helper to handle page transitions
+    // --- Effects ---
+    // Styles last written to each Section / background, so they can be cleared
+    const appliedSectionStyles = useRef<CSSProperties[]>([]);
+    const appliedBackgroundStyles = useRef<CSSProperties[]>([]);
+
+    // In a looping deck a Section's distance is measured the short way round
+    const wrapProgress = useCallback(
+      (progress: number) => {
+        if (!canLoopTop && !canLoopBottom) return progress;
+        const wrapped = ((progress % count) + count) % count;
+        return wrapped > count / 2 ? wrapped - count : wrapped;
+      },
+      [canLoopTop, canLoopBottom, count]
+    );
+
+    // Styles every Section for a (possibly fractional) page position
+    const applyEffect = useCallback(
+      (position: number, animate: boolean) => {
+        const container = containerRef.current;
+        const size = container
+          ? isVertical
+            ? container.clientHeight
+            : container.clientWidth
+          : 0;
+
+        sectionRefs.current.slice(0, count).forEach((el, index) => {
+          if (!el) return;
+          const progress = wrapProgress(index - position);
+          const styles = effectFn
+            ? effectFn(progress, { index, count, direction, size })
+            : { section: {} };
+
+          const sectionStyle: CSSProperties = effectFn
+            ? {
+                position: "absolute",
+                inset: 0,
+                // Far-away Sections are hidden; only the active one is interactive
+                visibility: Math.abs(progress) > 1 ? "hidden" : "visible",
+                pointerEvents: Math.abs(progress) < 0.5 ? "auto" : "none",
+                transitionProperty: "transform, opacity",
+                transitionTimingFunction: cssEasing,
+                transitionDuration: `${animate ? duration : 0}ms`,
+                ...styles.section,
+              }
+            : {};
+          applyStyles(el, sectionStyle, appliedSectionStyles.current[index]);
+          appliedSectionStyles.current[index] = sectionStyle;
+
+          const background = backgroundRefs.current[index];
+          if (background) {
+            const backgroundStyle: CSSProperties = styles.background
+              ? {
+                  transitionProperty: "transform, opacity",
+                  transitionTimingFunction: cssEasing,
+                  transitionDuration: `${animate ? duration : 0}ms`,
+                  ...styles.background,
+                }
+              : {};
+            applyStyles(
+              background,
+              backgroundStyle,
+              appliedBackgroundStyles.current[index]
+            );
+            appliedBackgroundStyles.current[index] = backgroundStyle;
+          }
+        });
+      },
+      [
+        effectFn,
+        count,
+        direction,
+        isVertical,
+        duration,
+        cssEasing,
+        wrapProgress,
+      ]
+    );
+
+    // --- Spring Snapping ---
+    // A drag release seeds the spring with its position and velocity; the
+    // reset or transition that follows then runs on rAF instead of CSS.
+    const springSeed = useRef<{
+      axis: "page" | "slide";
+      position: number;
+      velocity: number; // Pages (or slides) per second
+    } | null>(null);
+    const cancelSpring = useRef<(() => void) | null>(null);
+    const renderSpringFrame = useRef<(() => void) | null>(null);
+
+    const stopSpring = () => {
+      if (cancelSpring.current) {
+        cancelSpring.current();
+        cancelSpring.current = null;
+      }
+      renderSpringFrame.current = null;
+    };
+
+    // --- Live Position ---
+    // The fractional page position behind useSection()'s progress. Drags and
+    // springs publish their frames; CSS transitions are mirrored by a tween.
+    const [positionStore] = useState(() => createPositionStore(currentPage));
+    const easingFn = useMemo(() => toEasingFunction(easing), [easing]);
+    const cancelTween = useRef<(() => void) | null>(null);
+    const tweenTarget = useRef(currentPage);
+
+    const stopTween = () => {
+      if (cancelTween.current) {
+        cancelTween.current();
+        cancelTween.current = null;
+      }
+    };
+
+    const followTransition = useCallback(
+      (target: number) => {
+        // Already heading there (a wrap's target is one loop further round)
+        const isSamePage =
+          count > 0 &&
+          (((target - tweenTarget.current) % count) + count) % count === 0;
+        if (cancelTween.current && isSamePage) return;
+        if (!cancelTween.current && positionStore.get() === target) return;
+
+        stopTween();
+        tweenTarget.current = target;
+        cancelTween.current = animateTween({
+          from: positionStore.get(),
+          to: target,
+          duration,
+          easing: easingFn,
+          onUpdate: positionStore.set,
+          onRest: () => {
+            cancelTween.current = null;
+          },
+        });
+      },
+      [count, positionStore, duration, easingFn]
+    );
+
+    useEffect(() => stopTween, []);
+
+    // Moves without a transition (e.g. natural-flow scrolling) jump there
+    useEffect(() => {
+      if (status === "idle" && !cancelTween.current && !cancelSpring.current) {
+        positionStore.set(currentPage);
+      }
+    }, [status, currentPage, positionStore]);
+
+    // Writes a fractional position straight to the DOM
+    const renderPosition = useCallback(
+      (axis: "page" | "slide", position: number) => {
+        if (axis === "page") {
+          positionStore.set(position);
+        }
+        if (axis === "slide") {
+          const slideTrack = slideTrackRefs.current[currentPage];
+          if (slideTrack) {
+            slideTrack.style.transform = getTrackTransform(
+              position,
+              slideDirection
+            );
+          }
+        } else if (effectFn) {
+          applyEffect(position, false);
+        } else if (innerRef.current) {
+          innerRef.current.style.transform = getTrackTransform(
+            position + trackOffset,
+            direction
+          );
+        }
+      },
+      [
+        currentPage,
+        slideDirection,
+        effectFn,
+        applyEffect,
+        direction,
+        trackOffset,
+        positionStore,
+      ]
+    );
+
+    // Springs to `target` if a drag seeded it; returns false otherwise,
+    // leaving the caller to animate with a CSS transition.
+    const runSpring = useCallback(
+      (target: number, onRest?: () => void) => {
+        const seed = springSeed.current;
+        springSeed.current = null;
+        if (!seed || !spring) return false;
+
+        stopSpring();
+        stopTween();
+        cancelSpring.current = animateSpring({
+          from: seed.position,
+          to: target,
+          velocity: seed.velocity,
+          config: typeof spring === "object" ? spring : undefined,
+          onUpdate: (value) => {
+            renderSpringFrame.current = () => renderPosition(seed.axis, value);
+            renderSpringFrame.current();
+          },
+          onRest: () => {
+            cancelSpring.current = null;
+            renderSpringFrame.current = null;
+            // Hand the tracks back to CSS transitions
+            [innerRef.current, ...slideTrackRefs.current].forEach((track) => {
+              if (track) {
+                track.style.transitionDuration = `${duration}ms`;
+                track.style.willChange = "auto";
+              }
+            });
+            if (onRest) {
+              onRest();
+            }
+          },
+        });
+        return true;
+      },
+      [spring, renderPosition, duration]
+    );
+
+    useEffect(() => stopSpring, []);
+
+    // React may rewrite the track transform mid-spring; restore the spring frame
+    useIsomorphicLayoutEffect(() => {
+      if (renderSpringFrame.current) {
+        renderSpringFrame.current();
+      }
+    });
+
+    // Position the Sections before paint; only animate once mounted.
+    // Skipped mid-drag or mid-spring, where those own the Section styles.
+    useIsomorphicLayoutEffect(() => {
+      if (isDragging.current || cancelSpring.current) return;
+      applyEffect(currentPage, !isInstant);
+    }, [applyEffect, currentPage, isInstant]);
+
+    // Snap both tracks back to the committed position (after a drag or a veto)
+    const resetPosition = useCallback(() => {
+      const springAxis = springSeed.current?.axis;
+      if (runSpring(springAxis === "slide" ? currentSlide : currentPage)) {
+        return;
+      }
+
+      if (innerRef.current) {
+        innerRef.current.style.transform =
+          effectFn || isResponsive
+            ? "none"
+            : getTrackTransform(pageTrackIndex, direction);
+      }
+      if (effectFn) {
+        applyEffect(currentPage, true);
+      }
+      if (!isResponsive) {
+        followTransition(currentPage);
+      }
+      const slideTrack = slideTrackRefs.current[currentPage];
+      if (slideTrack) {
+        slideTrack.style.transform = getTrackTransform(
+          currentSlide,
+          slideDirection
+        );
+      }
+    }, [
+      currentPage,
+      currentSlide,
+      pageTrackIndex,
+      direction,
+      slideDirection,
+      effectFn,
+      isResponsive,
+      applyEffect,
+      runSpring,
+      followTransition,
+    ]);
+
+    // True while an async beforeLeave is deciding; blocks other navigation
+    const isLeavePending = useRef(false);
+
+    // --- Transition State Machine ---
+    // "animating" ends on the track's transitionend, with a timeout fallback
+    // for when no transition runs (hidden tab, duration 0, unchanged transform).
+    const transitionTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const onTransitionDone = useRef<(() => void) | null>(null);
+
+    const clearTransitionTimer = () => {
+      if (transitionTimer.current !== null) {
+        clearTimeout(transitionTimer.current);
+        transitionTimer.current = null;
+      }
+    };
+
+    const completeTransition = useCallback(() => {
+      clearTransitionTimer();
+      const done = onTransitionDone.current;
+      if (!done) return;
+
+      onTransitionDone.current = null;
+      setStatus("idle");
+      done();
+    }, []);
+
+    const beginTransition = useCallback(
+      (done: () => void) => {
+        // A new transition supersedes whatever was pending
+        clearTransitionTimer();
+        onTransitionDone.current = done;
+        setStatus("animating");
+        // A running spring ends the transition itself when it comes to rest
+        transitionTimer.current = setTimeout(() => {
+          if (!cancelSpring.current) {
+            completeTransition();
+          }
+        }, duration + 100);
+      },
+      [duration, completeTransition]
+    );
+
+    useEffect(
+      () => () => {
+        clearTransitionTimer();
+        onTransitionDone.current = null;
+      },
+      []
+    );
+
+    const handleTransitionEnd = (e: React.TransitionEvent) => {
+      if (e.propertyName !== "transform" && e.propertyName !== "opacity") {
+        return;
+      }
+      // Ignore transitions bubbling up from section content
+      const target = e.target as HTMLDivElement;
+      const isTrack =
+        target === innerRef.current ||
+        slideTrackRefs.current.includes(target) ||
+        (effectFn !== null && sectionRefs.current.includes(target));
+      if (isTrack) {
+        completeTransition();
+      }
+    };
+
+    const getSlideElement = (page: number, slide: number) =>
+      (slideTrackRefs.current[page]?.children[slide] as
+        | HTMLElement
+        | undefined) ?? null;
+
+    // Jumps from the edge clone the track just landed on to the real Section
+    const settleLoopWrap = useCallback(
+      (page: number) => {
+        const inner = innerRef.current;
+        if (inner) {
+          inner.style.transitionDuration = "0ms";
+          inner.style.transform = getTrackTransform(
+            page + trackOffset,
+            direction
+          );
+          // Flush the jump before transitions come back on
+          void inner.offsetHeight;
+          inner.style.transitionDuration = `${duration}ms`;
+        }
+        setLoopWrap(null);
+      },
+      [trackOffset, direction, duration]
+    );
+
+    // Page change a controlled deck asked its parent for, with the slide and
+    // loop wrap to use if `activePage` follows
+    const pendingPageChange = useRef<{
+      page: number;
+      slide: number;
+      wrap?: FullPageMoveDirection;
+    } | null>(null);
+    const [pageChangeRequest, setPageChangeRequest] = useState(0);
+
+    // Helper to handle page (and slide) transitions. `wrap` marks a loop
+    // move past the first or last Section. `isCommitted` marks a controlled
+    // change the parent already made, which isn't requested or vetoed again.
     const scrollToPage = useCallback(
-      (targetPage: number) => {
+      (
+        targetPage: number,
+        targetSlide?: number,
+        wrap?: FullPageMoveDirection,
+        isCommitted = false
+      ) => {
         if (targetPage < 0 || targetPage >= count) return;
-        if (isScrolling) return;
+        if (isScrolling || isLeavePending.current) return;
+
+        const originSlide = slideIndexes[targetPage] ?? 0;
+        const destinationSlide = targetSlide ?? originSlide;
+        const targetSlideCount = slideCounts[targetPage];
+        if (
+          destinationSlide !== 0 &&
+          (destinationSlide < 0 || destinationSlide >= targetSlideCount)
+        ) {
+          return;
+        }
+
+        const pageChanged = targetPage !== currentPage;
+        const slideChanged = destinationSlide !== originSlide;
+        if (!pageChanged && !slideChanged) return;
+
+        const origin = currentPage;
+        const moveDirection = wrap ?? (targetPage > origin ? "next" : "prev");
+        const isTrackWrap = Boolean(wrap) && hasTrackClones;
+
+        // A locked Section can't be left that way (a parent setting
+        // `activePage` itself is not held back)
+        if (pageChanged && !isCommitted && sectionLocks[moveDirection]) {
+          if (!isResponsive) {
+            resetPosition();
+          }
+          return;
+        }
+
+        const commitSlide = () => {
+          setSlideIndexes((prevIndexes) => {
+            const nextIndexes = [...prevIndexes];
+            nextIndexes[targetPage] = destinationSlide;
+            return nextIndexes;
+          });
+        };
 
-        if (onLeave) {
-          onLeave(currentPage, targetPage);
+        // Natural-flow mode: the browser scrolls, the observer tracks the page
+        if (isResponsive) {
+          if (slideChanged) {
+            commitSlide();
+          }
+          if (pageChanged) {
+            sectionRefs.current[targetPage]?.scrollIntoView({
+              behavior: scrollBehavior,
+              block: "start",
+            });
+          }
+          return;
         }
 
-        setIsScrolling(true);
-        setCurrentPage(targetPage);
+        const startTransition = () => {
+          // A controlled deck only moves once the parent updates `activePage`
+          if (pageChanged && isControlled && !isCommitted) {
+            pendingPageChange.current = {
+              page: targetPage,
+              slide: destinationSlide,
+              wrap,
+            };
+            setPageChangeRequest((request) => request + 1);
+            if (onPageChange) {
+              onPageChange(targetPage);
+            }
+            return;
+          }
 
-        // Reset scrolling lock after animation finishes
-        setTimeout(() => {
-          setIsScrolling(false);
-        }, duration);
+          // Focus inside the content being left would be lost once it turns
+          // inert, so it follows the move into the new content
+          const leaving = pageChanged
+            ? sectionRefs.current[origin]
+            : getSlideElement(targetPage, originSlide);
+          const hadFocus = Boolean(leaving?.contains(document.activeElement));
+
+          if (pageChanged && onLeave) {
+            onLeave(origin, targetPage);
+          }
+          if (pageChanged && !isControlled && onPageChange) {
+            onPageChange(targetPage);
+          }
+          if (slideChanged && onSlideLeave) {
+            onSlideLeave(targetPage, originSlide, destinationSlide);
+          }
+
+          setCurrentPage(targetPage);
+          if (slideChanged) {
+            commitSlide();
+          }
+          if (isTrackWrap) {
+            setLoopWrap(moveDirection);
+          }
+
+          // Scrolling lock is released once the animation actually finishes
+          beginTransition(() => {
+            if (isTrackWrap) {
+              settleLoopWrap(targetPage);
+            }
+            stopTween();
+            positionStore.set(targetPage);
+            if (hadFocus) {
+              const entering = pageChanged
+                ? sectionRefs.current[targetPage]
+                : getSlideElement(targetPage, destinationSlide);
+              entering?.focus({ preventScroll: true });
+            }
+            if (pageChanged && afterLoad) {
+              afterLoad(origin, targetPage, moveDirection);
+            }
+          });
+
+          // A drag release continues into the new position as a spring;
+          // a wrap keeps going past the edge instead of turning back
+          const springAxis = springSeed.current?.axis;
+          const pageTarget =
+            wrap === "next" ? count : wrap === "prev" ? -1 : targetPage;
+          const hasSpring = runSpring(
+            springAxis === "slide" ? destinationSlide : pageTarget,
+            completeTransition
+          );
+          if (!hasSpring && pageChanged) {
+            followTransition(pageTarget);
+          }
+        };
+
+        // Slide moves stay inside the section, so only page changes can be vetoed
+        if (!pageChanged || !beforeLeave || isCommitted) {
+          startTransition();
+          return;
+        }
+
+        const decision = beforeLeave(origin, targetPage, moveDirection);
+
+        if (isPromiseLike(decision)) {
+          isLeavePending.current = true;
+          Promise.resolve(decision).then(
+            (allowed) => {
+              isLeavePending.current = false;
+              if (allowed === false) {
+                resetPosition();
+              } else {
+                startTransition();
+              }
+            },
+            () => {
+              // A rejected check counts as a cancellation
+              isLeavePending.current = false;
+              resetPosition();
+            }
+          );
+        } else if (decision === false) {
+          resetPosition();
+        } else {
+          startTransition();
+        }
       },
-      [count, currentPage, isScrolling, duration, onLeave]
+      [
+        count,
+        currentPage,
+        isScrolling,
+        isResponsive,
+        scrollBehavior,
+        hasTrackClones,
+        settleLoopWrap,
+        followTransition,
+        positionStore,
+        beginTransition,
+        completeTransition,
+        runSpring,
+        onLeave,
+        onSlideLeave,
+        beforeLeave,
+        afterLoad,
+        onPageChange,
+        isControlled,
+        sectionLocks.next,
+        sectionLocks.prev,
+        resetPosition,
+        slideIndexes,
+        slideCounts,
+      ]
     );
 
+    // --- Controlled Mode ---
+
+    // Move to `activePage` whenever it differs from the page shown. A request
+    // the parent didn't accept snaps a released drag back into place.
+    useEffect(() => {
+      if (activePage === undefined || isScrolling || isLeavePending.current) {
+        return;
+      }
+      const request = pendingPageChange.current;
+      pendingPageChange.current = null;
+
+      const target = clampPage(activePage);
+      if (target === currentPage) {
+        if (request) {
+          resetPosition();
+        }
+        return;
+      }
+      if (request?.page === target) {
+        scrollToPage(target, request.slide, request.wrap, true);
+      } else {
+        scrollToPage(target, undefined, undefined, true);
+      }
+    }, [activePage, pageChangeRequest, isScrolling]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Like React inputs, a deck must stay either controlled or uncontrolled
+    // (a development-only warning, dropped from production builds)
+    const wasControlled = useRef(isControlled);
+    useEffect(() => {
+      if (process.env.NODE_ENV === "production") return;
+      if (wasControlled.current === isControlled) return;
+      const from = wasControlled.current ? "controlled" : "uncontrolled";
+      const to = isControlled ? "controlled" : "uncontrolled";
+      console.warn(
+        `FullPage is changing from ${from} to ${to}. Use either \`activePage\` or \`defaultPage\` for the lifetime of the component.`
+      );
+      wasControlled.current = isControlled;
+    }, [isControlled]);
+
     const next = useCallback(
-      () => scrollToPage(currentPage + 1),
-      [currentPage, scrollToPage]
+      () =>
+        currentPage === count - 1 && canLoopBottom
+          ? scrollToPage(0, undefined, "next")
+          : scrollToPage(currentPage + 1),
+      [currentPage, count, canLoopBottom, scrollToPage]
     );
     const prev = useCallback(
-      () => scrollToPage(currentPage - 1),
-      [currentPage, scrollToPage]
+      () =>
+        currentPage === 0 && canLoopTop
+          ? scrollToPage(count - 1, undefined, "prev")
+          : scrollToPage(currentPage - 1),
+      [currentPage, count, canLoopTop, scrollToPage]
+    );
+    const nextSlide = useCallback(
+      () => scrollToPage(currentPage, currentSlide + 1),
+      [currentPage, currentSlide, scrollToPage]
+    );
+    const prevSlide = useCallback(
+      () => scrollToPage(currentPage, currentSlide - 1),
+      [currentPage, currentSlide, scrollToPage]
     );
     const goTo = useCallback(
-      (page: number) => scrollToPage(page),
+      (page: number, slide?: number) => scrollToPage(page, slide),
       [scrollToPage]
     );
 
+    // --- Autoplay ---
+    // `isPlaying` is the on/off switch. Interactions only hold autoplay, and
+    // it resumes `resumeDelay` ms after the last of them ends.
+    const { interval: autoplayDefaultInterval, resumeDelay } = {
+      ...DEFAULT_AUTOPLAY,
+      ...(typeof autoplay === "object" ? autoplay : {}),
+    };
+    const isAutoplayEnabled = Boolean(autoplay);
+    const [isPlaying, setIsPlaying] = useState(isAutoplayEnabled);
+    const [isAutoplayHeld, setIsAutoplayHeld] = useState(false);
+    const autoplayHolds = useRef(new Set<string>());
+    const autoplayResumeTimer = useRef<ReturnType<typeof setTimeout> | null>(
+      null
+    );
+
+    const clearAutoplayResumeTimer = () => {
+      if (autoplayResumeTimer.current !== null) {
+        clearTimeout(autoplayResumeTimer.current);
+        autoplayResumeTimer.current = null;
+      }
+    };
+
+    const holdAutoplay = useCallback((reason: string) => {
+      clearAutoplayResumeTimer();
+      autoplayHolds.current.add(reason);
+      setIsAutoplayHeld(true);
+    }, []);
+
+    const releaseAutoplay = useCallback(
+      (reason: string) => {
+        if (!autoplayHolds.current.delete(reason)) return;
+        if (autoplayHolds.current.size > 0) return;
+        clearAutoplayResumeTimer();
+        autoplayResumeTimer.current = setTimeout(() => {
+          autoplayResumeTimer.current = null;
+          setIsAutoplayHeld(false);
+        }, resumeDelay);
+      },
+      [resumeDelay]
+    );
+
+    const play = useCallback(() => {
+      // An explicit play overrides whatever interaction was holding it
+      clearAutoplayResumeTimer();
+      autoplayHolds.current.clear();
+      setIsAutoplayHeld(false);
+      setIsPlaying(true);
+    }, []);
+    const pause = useCallback(() => setIsPlaying(false), []);
+
+    // Follow the `autoplay` prop when it is toggled
+    useEffect(() => {
+      setIsPlaying(isAutoplayEnabled);
+    }, [isAutoplayEnabled]);
+
+    useEffect(() => clearAutoplayResumeTimer, []);
+
+    // Hidden tabs don't advance
+    useEffect(() => {
+      if (typeof document === "undefined") return;
+
+      const handleVisibilityChange = () => {
+        if (document.hidden) {
+          holdAutoplay("hidden");
+        } else {
+          releaseAutoplay("hidden");
+        }
+      };
+
+      handleVisibilityChange();
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+      return () =>
+        document.removeEventListener(
+          "visibilitychange",
+          handleVisibilityChange
+        );
+    }, [holdAutoplay, releaseAutoplay]);
+
+    // Each stop restarts the countdown; the last Section stops a non-looping
+    // deck instead of bouncing off the edge
+    const autoplayInterval =
+      sections[currentPage]?.props.autoplayInterval ?? autoplayDefaultInterval;
+    useEffect(() => {
+      if (!isPlaying || isAutoplayHeld || status !== "idle" || isResponsive) {
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        if (currentPage === count - 1 && !canLoopBottom) {
+          setIsPlaying(false);
+        } else {
+          next();
+        }
+      }, autoplayInterval);
+      return () => clearTimeout(timer);
+    }, [
+      isPlaying,
+      isAutoplayHeld,
+      status,
+      isResponsive,
+      autoplayInterval,
+      currentPage,
+      count,
+      canLoopBottom,
+      next,
+    ]);
+
     // --- Expose API via Ref ---
     useImperativeHandle(ref, () => ({
       next,
       prev,
+      nextSlide,
+      prevSlide,
       goTo,
+      goToId: (id, slide) => {
+        const index = sections.findIndex(
+          (section, i) => section.props.id === id || anchorList[i] === id
+        );
+        if (index !== -1) {
+          goTo(index, slide);
+        }
+      },
       getCurrentPage: () => currentPage,
+      getCurrentSlide: () => currentSlide,
+      getStatus: () => status,
+      getPosition: () => ({ section: currentPage, slide: currentSlide }),
       getCount: () => count,
+      getSlideCount: (page = currentPage) => slideCounts[page] ?? 0,
+      play,
+      pause,
+      isPlaying: () => isPlaying,
+      setAllowScrolling,
+      setKeyboardScrolling,
     }));
 
+    // --- URL Hash Sync ---
+
+    // Deep link: jump to the position named by the hash before the first
+    // paint. The server can't see the hash, so it isn't read while rendering.
+    useIsomorphicLayoutEffect(() => {
+      if (!hasAnchors) return;
+      const target = parseHash(window.location.hash, anchorList);
+      if (!target) return;
+
+      // A controlled deck asks its parent to open the linked Section
+      if (!isControlled) {
+        setCurrentPage(target.section);
+      } else if (target.section !== currentPage && onPageChange) {
+        onPageChange(target.section);
+      }
+      setSlideIndexes((prevIndexes) => {
+        const nextIndexes = [...prevIndexes];
+        nextIndexes[target.section] = target.slide;
+        return nextIndexes;
+      });
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Turn transitions on a frame after the deck was placed without them
+    // (on mount, or after the Sections changed), once it is on screen
+    useEffect(() => {
+      if (!isInstant) return;
+      const frame = requestAnimationFrame(() => setIsInstant(false));
+      return () => cancelAnimationFrame(frame);
+    }, [isInstant]);
+
+    // --- Dynamic Sections ---
+
+    // When Sections are added, removed or reordered, stay on the same Section
+    // (or the one that took its place if it was removed), without animating
+    const previousSectionIds = useRef(sectionIds);
+    useIsomorphicLayoutEffect(() => {
+      const previousIds = previousSectionIds.current;
+      previousSectionIds.current = sectionIds;
+      if (
+        previousIds.length === sectionIds.length &&
+        previousIds.every((sectionId, index) => sectionId === sectionIds[index])
+      ) {
+        return;
+      }
+
+      const keptPage = sectionIds.indexOf(previousIds[currentPage]);
+      const nextPage = keptPage !== -1 ? keptPage : clampPage(currentPage);
+
+      // Remembered slides follow their Section
+      setSlideIndexes((prevIndexes) =>
+        sectionIds.map((sectionId, index) => {
+          const previousIndex = previousIds.indexOf(sectionId);
+          const slide =
+            previousIndex !== -1 ? prevIndexes[previousIndex] ?? 0 : 0;
+          return Math.min(slide, Math.max(slideCounts[index] - 1, 0));
+        })
+      );
+      if (nextPage !== currentPage) {
+        setIsInstant(true);
+        setCurrentPage(nextPage);
+        if (isControlled && onPageChange) {
+          onPageChange(nextPage);
+        }
+      }
+      if (onSectionsChange) {
+        onSectionsChange(sectionIds.length, nextPage);
+      }
+    }, [sectionIds]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Write every position change to the hash. The initial position is
+    // skipped: it either matches a deep link or should leave the URL alone.
+    const lastSyncedPosition = useRef({
+      section: currentPage,
+      slide: currentSlide,
+    });
+    useEffect(() => {
+      const last = lastSyncedPosition.current;
+      if (last.section === currentPage && last.slide === currentSlide) return;
+      lastSyncedPosition.current = {
+        section: currentPage,
+        slide: currentSlide,
+      };
+
+      if (!hasAnchors || history === false) return;
+
+      const hash = buildHash(
+        { section: currentPage, slide: currentSlide },
+        anchorList
+      );
+      if (hash === window.location.hash) return;
+      // Back at the start from a location without a deep link: keep that
+      // location, or going back there would push a new entry over forward
+      if (
+        currentPage === startPage.current &&
+        currentSlide === 0 &&
+        !parseHash(window.location.hash, anchorList)
+      ) {
+        return;
+      }
+
+      const url = `${window.location.pathname}${window.location.search}${hash}`;
+      if (history === "replace") {
+        window.history.replaceState(window.history.state, "", url);
+      } else {
+        window.history.pushState(window.history.state, "", url);
+      }
+    }, [currentPage, currentSlide]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Follow back/forward buttons and manual hash edits; a hash that names no
+    // anchor (e.g. back to the page's first entry) returns to the start.
+    // Navigation that arrives mid-animation is replayed once the scroll lock
+    // releases.
+    const pendingLocationSync = useRef(false);
+    useEffect(() => {
+      if (!hasAnchors) return;
+
+      const syncFromLocation = () => {
+        if (isScrolling) {
+          pendingLocationSync.current = true;
+          return;
+        }
+        pendingLocationSync.current = false;
+
+        const target = parseHash(window.location.hash, anchorList) ?? {
+          section: startPage.current,
+          slide: 0,
+        };
+        scrollToPage(target.section, target.slide);
+      };
+
+      if (pendingLocationSync.current) {
+        syncFromLocation();
+      }
+
+      window.addEventListener("popstate", syncFromLocation);
+      window.addEventListener("hashchange", syncFromLocation);
+      return () => {
+        window.removeEventListener("popstate", syncFromLocation);
+        window.removeEventListener("hashchange", syncFromLocation);
+      };
+    }, [hasAnchors, anchorList, isScrolling, scrollToPage]);
+
+    // --- Lifecycle Callbacks ---
+
+    const hasRendered = useRef(false);
+    useEffect(() => {
+      if (hasRendered.current) return;
+      hasRendered.current = true;
+      if (afterRender) {
+        afterRender();
+      }
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // The container can change size on its own (nested or embedded decks),
+    // so it is observed directly where ResizeObserver exists
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!afterResize || !container) return;
+
+      let lastSize = [container.clientWidth, container.clientHeight];
+      const handleResize = () => {
+        const width = container.clientWidth;
+        const height = container.clientHeight;
+        // The observer also reports the size it starts with
+        if (width === lastSize[0] && height === lastSize[1]) return;
+        lastSize = [width, height];
+        afterResize(width, height);
+      };
+
+      if (typeof ResizeObserver === "undefined") {
+        window.addEventListener("resize", handleResize);
+        return () => window.removeEventListener("resize", handleResize);
+      }
+      const observer = new ResizeObserver(handleResize);
+      observer.observe(container);
+      return () => observer.disconnect();
+    }, [afterResize]);
+
     // --- Event Handlers ---
 
+    // The current Section's own scroll container, if it scrolls content first
+    const getScrollableSection = () =>
+      isCurrentScrollable ? sectionRefs.current[currentPage] ?? null : null;
+
+    // --- Responsive Fallback ---
+
+    // Keep currentPage in sync with whichever Section crosses the middle of
+    // the viewport while the document scrolls natively
+    const observedPage = useRef(currentPage);
+    const onLeaveRef = useRef(onLeave);
+    onLeaveRef.current = onLeave;
+    // The document scroll is the source of truth here, even when controlled
+    const onPageChangeRef = useRef(onPageChange);
+    onPageChangeRef.current = onPageChange;
+
+    useEffect(() => {
+      if (!isResponsive || typeof IntersectionObserver === "undefined") return;
+
+      observedPage.current = currentPage;
+      const observer = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            if (!entry.isIntersecting) return;
+            const index = sectionRefs.current.indexOf(
+              entry.target as HTMLDivElement
+            );
+            if (index === -1 || index === observedPage.current) return;
+
+            if (onLeaveRef.current) {
+              onLeaveRef.current(observedPage.current, index);
+            }
+            if (onPageChangeRef.current) {
+              onPageChangeRef.current(index);
+            }
+            observedPage.current = index;
+            setCurrentPage(index);
+          });
+        },
+        { rootMargin: "-50% 0px -50% 0px" }
+      );
+
+      sectionRefs.current.slice(0, count).forEach((el) => {
+        if (el) observer.observe(el);
+      });
+      return () => observer.disconnect();
+    }, [isResponsive, count]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Switching modes keeps the reader on the same Section
+    const wasResponsive = useRef(false);
+    useEffect(() => {
+      if (isResponsive) {
+        sectionRefs.current[currentPage]?.scrollIntoView({ block: "start" });
+      } else if (wasResponsive.current) {
+        window.scrollTo(0, 0);
+      }
+      wasResponsive.current = isResponsive;
+    }, [isResponsive]); // eslint-disable-line react-hooks/exhaustive-deps
+
     // 1. Wheel Event (Mouse Scroll)
+    // Events are grouped into gestures so one flick moves exactly one page,
+    // however long its inertial tail and whatever the device's delta scale.
+    const wheelGesture = useRef(createWheelGesture());
+
     useEffect(() => {
+      if (isResponsive) return;
+
       const handleWheel = (e: WheelEvent) => {
         if (isDragging.current) return;
 
-        e.preventDefault();
-        if (isScrolling) return;
+        const container = containerRef.current;
+        const gestureOptions = {
+          sensitivity: wheelSensitivity,
+          debounce: wheelDebounce,
+        };
+        const deltaX = normalizeWheelDelta(
+          e.deltaX,
+          e.deltaMode,
+          container?.clientWidth ?? window.innerWidth
+        );
+        const deltaY = normalizeWheelDelta(
+          e.deltaY,
+          e.deltaMode,
+          container?.clientHeight ?? window.innerHeight
+        );
+
+        // Cross-axis wheel/trackpad gestures drive the current section's
+        // slides: sideways in a vertical deck, up and down in a horizontal one
+        const crossDelta = isVertical ? deltaX : deltaY;
+        const mainDelta = isVertical ? deltaY : deltaX;
+        const isSlideGesture =
+          slideCount > 0 && Math.abs(crossDelta) > Math.abs(mainDelta);
+        const delta = isSlideGesture
+          ? crossDelta
+          : isVertical
+          ? deltaY
+          : deltaX !== 0
+          ? deltaX
+          : deltaY;
+
+        // A nested deck already acted on this event: follow its gesture
+        // without acting, so the tail doesn't page this deck
+        if (isEventClaimed(e)) {
+          wheelGesture.current.update(
+            "page",
+            delta,
+            e.timeStamp,
+            gestureOptions
+          );
+          wheelGesture.current.consume();
+          return;
+        }
 
-        const delta = isVertical
-          ? e.deltaY
-          : e.deltaX !== 0
-          ? e.deltaX
-          : e.deltaY;
+        const scrollable = getScrollableSection();
+        if (
+          !isSlideGesture &&
+          !isScrolling &&
+          scrollable &&
+          canScrollFurther(scrollable, direction, delta)
+        ) {
+          // The gesture belongs to the content: its tail must not page once
+          // the edge is reached
+          wheelGesture.current.update(
+            "page",
+            delta,
+            e.timeStamp,
+            gestureOptions
+          );
+          wheelGesture.current.consume();
+          claimEvent(e);
+
+          // Inside the section the browser scrolls it natively; over
+          // overlays (headers, dots) scroll it on their behalf
+          if (!scrollable.contains(e.target as Node)) {
+            e.preventDefault();
+            scrollable.scrollBy(isVertical ? { top: delta } : { left: delta });
+          }
+          return;
+        }
+
+        // Keep feeding the detector while animating, so the rest of the
+        // gesture that started this transition is swallowed
+        const step = wheelGesture.current.update(
+          isSlideGesture ? "slide" : "page",
+          delta,
+          e.timeStamp,
+          gestureOptions
+        );
+
+        // At its edge a nested deck leaves the event to the outer one
+        const canMove = isSlideGesture
+          ? delta > 0
+            ? currentSlide < slideCount - 1
+            : currentSlide > 0
+          : delta > 0
+          ? currentPage < count - 1 || canLoopBottom
+          : currentPage > 0 || canLoopTop;
+        if (isNested && !isScrolling && !canMove) return;
 
-        if (delta > 30) {
+        e.preventDefault();
+        claimEvent(e);
+        if (isScrolling || step === 0) return;
+        if (
+          !canInputMove(
+            allowScrolling,
+            step > 0 ? "next" : "prev",
+            isSlideGesture ? "slide" : "page"
+          )
+        ) {
+          return;
+        }
+
+        if (isSlideGesture) {
+          if (step > 0) {
+            nextSlide();
+          } else {
+            prevSlide();
+          }
+        } else if (step > 0) {
           next();
-        } else if (delta < -30) {
+        } else {
           prev();
         }
       };
@@ -145,52 +1455,200 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
           container.removeEventListener("wheel", handleWheel);
         }
       };
-    }, [next, prev, isScrolling, isVertical]);
+    }, [
+      next,
+      prev,
+      nextSlide,
+      prevSlide,
+      slideCount,
+      currentSlide,
+      count,
+      canLoopTop,
+      canLoopBottom,
+      isNested,
+      isScrolling,
+      isVertical,
+      isCurrentScrollable,
+      currentPage,
+      direction,
+      isResponsive,
+      wheelSensitivity,
+      wheelDebounce,
+      allowScrolling,
+      sectionLocks.next,
+      sectionLocks.prev,
+    ]);
 
     // 2. Keyboard Event
+    // Listens on window; `keyboardScope` narrows which keys this deck takes
+    const isPointerOver = useRef(false);
+    const resolvedKeyMap = useMemo(
+      () => ({ ...getDefaultKeyMap(direction), ...keyMap }),
+      [direction, keyMap]
+    );
+
     useEffect(() => {
+      // Native scrolling handles the keyboard in natural-flow mode
+      if (isResponsive) return;
+
+      // Whether this deck takes the key, given `keyboardScope`
+      const isInScope = () => {
+        if (keyboardScope === "window") return true;
+        const container = containerRef.current;
+        const active = document.activeElement;
+        if (container && active && container.contains(active)) return true;
+        // "container" also takes keys while hovered with nothing focused
+        return (
+          keyboardScope === "container" &&
+          isPointerOver.current &&
+          (!active || active === document.body)
+        );
+      };
+
       const handleKeyDown = (e: KeyboardEvent) => {
-        if (isDragging.current) return;
+        // Already handled, e.g. by the NavigationDots tablist
+        if (isDragging.current || e.defaultPrevented) return;
+        // Leave browser and OS shortcuts alone
+        if (e.altKey || e.ctrlKey || e.metaKey) return;
+        if (!isInScope() || isKeyForTarget(e) || isDialogOpen()) return;
+        // A deck nested inside this one has focus, so the keys are its own
+        const container = containerRef.current;
+        if (container && isFocusInNestedDeck(container)) return;
+
+        // Cross-axis arrows move between slides when the section has any
+        if (slideCount > 0) {
+          const nextSlideKey = isVertical ? "ArrowRight" : "ArrowDown";
+          const prevSlideKey = isVertical ? "ArrowLeft" : "ArrowUp";
+
+          // Keys switched off that way are left to the page entirely
+          if (e.key === nextSlideKey) {
+            if (!keyboardScrolling.next) return;
+            e.preventDefault();
+            nextSlide();
+            return;
+          } else if (e.key === prevSlideKey) {
+            if (!keyboardScrolling.prev) return;
+            e.preventDefault();
+            prevSlide();
+            return;
+          }
+        }
 
-        const nextKeys = isVertical
-          ? ["ArrowDown", "PageDown", " "]
-          : ["ArrowRight", "ArrowDown", "PageDown", " "];
+        const action = getKeyAction(resolvedKeyMap, e.key);
+        if (!action) return;
 
-        const prevKeys = isVertical
-          ? ["ArrowUp", "PageUp"]
-          : ["ArrowLeft", "ArrowUp", "PageUp"];
+        const isForward = action === "next" || action === "last";
+        const isJump = action === "first" || action === "last";
+        const moveDirection = isForward ? "next" : "prev";
+        if (!keyboardScrolling[moveDirection]) return;
+        e.preventDefault();
+
+        // Scroll an overflowing section's content until it reaches its edge
+        const scrollable = getScrollableSection();
+        if (
+          scrollable &&
+          canScrollFurther(scrollable, direction, isForward ? 1 : -1)
+        ) {
+          const pageSize = isVertical
+            ? scrollable.clientHeight
+            : scrollable.clientWidth;
+          const distance = isJump
+            ? isVertical
+              ? scrollable.scrollHeight
+              : scrollable.scrollWidth
+            : e.key.startsWith("Arrow")
+            ? 40
+            : pageSize * 0.9;
+          scrollable.scrollBy({
+            [isVertical ? "top" : "left"]: distance * (isForward ? 1 : -1),
+            behavior: scrollBehavior,
+          });
+          return;
+        }
+
+        // A locked Section still takes the key, but doesn't move
+        if (!canInputMove(keyboardScrolling, moveDirection, "page")) return;
 
-        if (nextKeys.includes(e.key)) {
-          e.preventDefault();
+        if (action === "next") {
           next();
-        } else if (prevKeys.includes(e.key)) {
-          e.preventDefault();
+        } else if (action === "prev") {
           prev();
+        } else {
+          goTo(action === "first" ? 0 : count - 1);
         }
       };
 
       window.addEventListener("keydown", handleKeyDown);
       return () => window.removeEventListener("keydown", handleKeyDown);
-    }, [next, prev, isVertical]);
+    }, [
+      next,
+      prev,
+      nextSlide,
+      prevSlide,
+      goTo,
+      count,
+      slideCount,
+      isVertical,
+      isCurrentScrollable,
+      currentPage,
+      direction,
+      isResponsive,
+      scrollBehavior,
+      keyboardScope,
+      resolvedKeyMap,
+      keyboardScrolling,
+      sectionLocks.next,
+      sectionLocks.prev,
+    ]);
 
     // 3. Drag Logic (Touch & Mouse) - Optimized with rAF
 
     const handleDragStart = (x: number, y: number, target: EventTarget) => {
-      if (isScrolling) return;
+      if (isScrolling || isResponsive) return;
       if ((target as HTMLElement).closest("button, a, input, textarea")) return;
 
+      stopSpring();
+      stopTween();
+      springSeed.current = null;
+      holdAutoplay("drag");
+
+      const scrollable = getScrollableSection();
+      dragScrollSource.current =
+        scrollable && scrollable.contains(target as Node) ? scrollable : null;
+
       isDragging.current = true;
-      startPos.current = isVertical ? y : x;
+      startPos.current = { x, y };
       startTime.current = Date.now();
       currentDelta.current = 0;
+      dragAxis.current = null;
       latestDragPos.current = { x, y };
 
-      if (innerRef.current) {
-        innerRef.current.style.transitionDuration = "0ms";
-        innerRef.current.style.willChange = "transform"; // Hint browser for incoming changes
-      }
+      getDragTracks().forEach((track) => {
+        track.style.transitionDuration = "0ms";
+        track.style.willChange = "transform"; // Hint browser for incoming changes
+      });
     };
 
+    // Drops a gesture without moving anything (e.g. handed to native scroll)
+    const cancelDrag = () => {
+      isDragging.current = false;
+      rafRef.current = null;
+      releaseDrag(containerRef.current);
+      releaseAutoplay("drag");
+      getDragTracks().forEach((track) => {
+        track.style.transitionDuration = `${duration}ms`;
+        track.style.willChange = "auto";
+      });
+    };
+
+    // Both tracks the pointer may end up moving: pages and current slides
+    const getDragTracks = () =>
+      isReducedMotion
+        ? []
+        : [innerRef.current, slideTrackRefs.current[currentPage]].filter(
+            (track): track is HTMLDivElement => Boolean(track)
+          );
+
     // Performance: Core update logic extracted to run inside rAF
     const updateDragVisuals = () => {
       if (!isDragging.current || !latestDragPos.current || !innerRef.current) {
@@ -199,27 +1657,115 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
       }
 
       const { x, y } = latestDragPos.current;
-      const currentPos = isVertical ? y : x;
-      const delta = currentPos - startPos.current;
+      const deltaX = x - startPos.current.x;
+      const deltaY = y - startPos.current.y;
+
+      // Lock the axis on the first significant movement
+      if (dragAxis.current === null) {
+        if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) < 8) {
+          rafRef.current = null;
+          return;
+        }
+        const isCrossAxis = isVertical
+          ? Math.abs(deltaX) > Math.abs(deltaY)
+          : Math.abs(deltaY) > Math.abs(deltaX);
+        dragAxis.current = isCrossAxis && slideCount > 0 ? "slide" : "page";
+
+        // A nested deck hands drags it can't follow to the outer deck:
+        // across its axis without slides, or past an edge
+        const mainDelta = isVertical ? deltaY : deltaX;
+        if (
+          isNested &&
+          dragAxis.current === "page" &&
+          (isCrossAxis ||
+            (mainDelta > 0 && currentPage === 0 && !canLoopTop) ||
+            (mainDelta < 0 && currentPage === count - 1 && !canLoopBottom))
+        ) {
+          cancelDrag();
+          return;
+        }
+
+        // A main-axis drag inside a scrollable section scrolls its content
+        // natively until it hits the edge; only then does it move the page
+        const scrollable = dragScrollSource.current;
+        if (
+          dragAxis.current === "page" &&
+          scrollable &&
+          canScrollFurther(scrollable, direction, -mainDelta)
+        ) {
+          cancelDrag();
+          return;
+        }
+
+        // Inner decks lock first; once one owns the drag, outer decks let go
+        if (containerRef.current && !claimDrag(containerRef.current)) {
+          cancelDrag();
+          return;
+        }
+
+        setStatus("dragging");
+      }
+
+      const isSlideDrag = dragAxis.current === "slide";
+      const axisDirection = isSlideDrag ? slideDirection : direction;
+      const delta = axisDirection === "vertical" ? deltaY : deltaX;
+      const index = isSlideDrag ? currentSlide : currentPage;
+      const total = isSlideDrag ? slideCount : count;
       let effectiveDelta = delta;
 
-      // Resistance at edges
+      // Resistance at edges, unless the deck loops past them, and towards
+      // a locked or switched off direction
+      const isTopEdge = index === 0 && delta > 0;
+      const isBottomEdge = index === total - 1 && delta < 0;
+      const axis = isSlideDrag ? "slide" : "page";
+      const isBlocked =
+        (delta < 0 && !canInputMove(allowScrolling, "next", axis)) ||
+        (delta > 0 && !canInputMove(allowScrolling, "prev", axis));
       if (
-        (currentPage === 0 && delta > 0) ||
-        (currentPage === count - 1 && delta < 0)
+        (isTopEdge && (isSlideDrag || !canLoopTop)) ||
+        (isBottomEdge && (isSlideDrag || !canLoopBottom)) ||
+        isBlocked
       ) {
         effectiveDelta = delta * 0.35;
       }
 
       currentDelta.current = effectiveDelta;
 
-      const offsetPct = currentPage * 100;
-      // Use translate3d to ensure GPU layer promotion
-      const transform = isVertical
-        ? `translate3d(0, calc(-${offsetPct}% + ${effectiveDelta}px), 0)`
-        : `translate3d(calc(-${offsetPct}% + ${effectiveDelta}px), 0, 0)`;
+      // Reduced motion: the release still navigates, but nothing follows
+      if (isReducedMotion) {
+        rafRef.current = null;
+        return;
+      }
 
-      innerRef.current.style.transform = transform;
+      if (!isSlideDrag) {
+        const container = containerRef.current;
+        const size = container
+          ? isVertical
+            ? container.clientHeight
+            : container.clientWidth
+          : 0;
+        const position = currentPage - effectiveDelta / (size || 1);
+        positionStore.set(position);
+
+        // Section effects follow the pointer through the same progress values
+        if (effectFn) {
+          applyEffect(position, false);
+          rafRef.current = null;
+          return;
+        }
+      }
+
+      const track = isSlideDrag
+        ? slideTrackRefs.current[currentPage]
+        : innerRef.current;
+      if (track) {
+        // Use translate3d to ensure GPU layer promotion
+        track.style.transform = getTrackTransform(
+          isSlideDrag ? index : index + trackOffset,
+          axisDirection,
+          effectiveDelta
+        );
+      }
 
       rafRef.current = null;
     };
@@ -238,6 +1784,10 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
     const handleDragEnd = () => {
       if (!isDragging.current) return;
       isDragging.current = false;
+      // Becomes "animating" below if the drag commits to a new position
+      setStatus("idle");
+      releaseAutoplay("drag");
+      releaseDrag(containerRef.current);
 
       // Cancel any pending rAF
       if (rafRef.current) {
@@ -250,45 +1800,103 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
 
       const velocity = Math.abs(delta) / (timeElapsed || 1);
 
-      const viewportSize = isVertical ? window.innerHeight : window.innerWidth;
+      const isSlideDrag = dragAxis.current === "slide";
+      const axisDirection = isSlideDrag ? slideDirection : direction;
+      // Sized by the container, which only fills the window when top-level
+      const container = containerRef.current;
+      const viewportSize =
+        (axisDirection === "vertical"
+          ? container?.clientHeight
+          : container?.clientWidth) || 1;
       const threshold = viewportSize * 0.15;
       const velocityThreshold = 0.35;
       const minFlickDistance = 30;
 
-      if (innerRef.current) {
-        innerRef.current.style.transitionDuration = `${duration}ms`;
-        innerRef.current.style.willChange = "auto"; // Remove hint to save memory
+      const index = isSlideDrag ? currentSlide : currentPage;
+      const total = isSlideDrag ? slideCount : count;
+
+      if (spring && dragAxis.current !== null) {
+        // Seed the spring with the release point and signed velocity;
+        // tracks keep their 0ms transition while it runs.
+        springSeed.current = {
+          axis: isSlideDrag ? "slide" : "page",
+          position: index - delta / viewportSize,
+          velocity: (-delta / (timeElapsed || 1) / viewportSize) * 1000,
+        };
+      } else {
+        getDragTracks().forEach((track) => {
+          track.style.transitionDuration = `${duration}ms`;
+          track.style.willChange = "auto"; // Remove hint to save memory
+        });
       }
 
       const isValidFlick =
         velocity > velocityThreshold && Math.abs(delta) > minFlickDistance;
       const isPastThreshold = Math.abs(delta) > threshold;
 
+      // Pages may loop past either edge; slides never do
+      const axis = isSlideDrag ? "slide" : "page";
+      const canAdvance =
+        (index < total - 1 || (!isSlideDrag && canLoopBottom)) &&
+        canInputMove(allowScrolling, "next", axis);
+      const canRetreat =
+        (index > 0 || (!isSlideDrag && canLoopTop)) &&
+        canInputMove(allowScrolling, "prev", axis);
+
       if (isPastThreshold || isValidFlick) {
-        if (delta < 0 && currentPage < count - 1) {
-          scrollToPage(currentPage + 1);
-        } else if (delta > 0 && currentPage > 0) {
-          scrollToPage(currentPage - 1);
+        if (delta < 0 && canAdvance) {
+          if (isSlideDrag) {
+            nextSlide();
+          } else {
+            next();
+          }
+        } else if (delta > 0 && canRetreat) {
+          if (isSlideDrag) {
+            prevSlide();
+          } else {
+            prev();
+          }
         } else {
           resetPosition();
         }
       } else {
         resetPosition();
       }
-    };
 
-    const resetPosition = () => {
-      if (innerRef.current) {
-        const offsetPct = currentPage * 100;
-        innerRef.current.style.transform = isVertical
-          ? `translate3d(0, -${offsetPct}%, 0)`
-          : `translate3d(-${offsetPct}%, 0, 0)`;
+      // The navigation was refused outright: spring back instead. A controlled
+      // request keeps the seed for whichever move the parent settles on.
+      if (
+        springSeed.current &&
+        !isLeavePending.current &&
+        !pendingPageChange.current
+      ) {
+        resetPosition();
       }
     };
 
     useEffect(() => {
-      resetPosition();
-    }, [direction, currentPage]); // eslint-disable-line react-hooks/exhaustive-deps
+      // A running spring is already carrying the tracks to the new position
+      if (!cancelSpring.current) {
+        resetPosition();
+      }
+    }, [direction, currentPage, currentSlide]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Only the current Section (and Slide) is exposed to assistive tech and
+    // the tab order; natural-flow mode shows everything
+    useEffect(() => {
+      sectionRefs.current.slice(0, count).forEach((el, index) => {
+        if (!el) return;
+        setHidden(el, !isResponsive && index !== currentPage);
+
+        const slideTrack = slideTrackRefs.current[index];
+        if (slideTrack) {
+          const activeSlide = slideIndexes[index] ?? 0;
+          for (let i = 0; i < slideTrack.children.length; i++) {
+            setHidden(slideTrack.children[i], i !== activeSlide);
+          }
+        }
+      });
+    }, [currentPage, slideIndexes, count, isResponsive]);
 
     // Mouse Event Wrappers
     const onMouseDown = (e: React.MouseEvent) => {
@@ -305,6 +1913,25 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
       window.removeEventListener("mouseup", onMouseUpWindow);
     };
 
+    // Autoplay holds: a hovering mouse (touch taps are drags) and focus inside.
+    // Hovering also scopes the keyboard for keyboardScope="container".
+    const onPointerEnter = (e: React.PointerEvent) => {
+      isPointerOver.current = true;
+      if (e.pointerType === "mouse") {
+        holdAutoplay("hover");
+      }
+    };
+    const onPointerLeave = () => {
+      isPointerOver.current = false;
+      releaseAutoplay("hover");
+    };
+    const onFocus = () => holdAutoplay("focus");
+    const onBlur = (e: React.FocusEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        releaseAutoplay("focus");
+      }
+    };
+
     // Touch Event Wrappers
     const onTouchStart = (e: React.TouchEvent) => {
       handleDragStart(e.touches[0].clientX, e.touches[0].clientY, e.target);
@@ -317,54 +1944,254 @@ export const FullPage = forwardRef<FullPageRef, FullPageProps>(
     };
 
     // Performance: Memoize context to avoid re-rendering consumers (Dots, custom hooks)
+    const hasNext =
+      (currentPage < count - 1 || canLoopBottom) && !sectionLocks.next;
+    const hasPrev = (currentPage > 0 || canLoopTop) && !sectionLocks.prev;
+
     const contextValue = useMemo(
       () => ({
         currentPage,
+        currentSlide,
+        position: { section: currentPage, slide: currentSlide },
         count,
+        slideCount,
         next,
         prev,
+        hasNext,
+        hasPrev,
+        nextSlide,
+        prevSlide,
         goTo,
         isScrolling,
+        status,
+        isResponsive,
+        isReducedMotion,
         direction,
+        slideDirection,
+        play,
+        pause,
+        isPlaying,
+        setAllowScrolling,
+        setKeyboardScrolling,
+        anchors: anchorList,
+        navigationTooltips,
       }),
-      [currentPage, count, next, prev, goTo, isScrolling, direction]
+      [
+        currentPage,
+        currentSlide,
+        count,
+        slideCount,
+        next,
+        prev,
+        hasNext,
+        hasPrev,
+        nextSlide,
+        prevSlide,
+        goTo,
+        isScrolling,
+        status,
+        isResponsive,
+        isReducedMotion,
+        direction,
+        slideDirection,
+        play,
+        pause,
+        isPlaying,
+        setAllowScrolling,
+        setKeyboardScrolling,
+        anchorList,
+        navigationTooltips,
+      ]
+    );
+
+    // Decks with an `id` can be reached with useFullPage(id): synchronously
+    // below them in the tree, through the registry from anywhere else
+    const treeValue = useMemo(
+      () => (id ? { ...ancestorDecks, [id]: contextValue } : ancestorDecks),
+      [id, ancestorDecks, contextValue]
+    );
+    useEffect(() => {
+      if (id) {
+        return registerFullPage(id, contextValue);
+      }
+    }, [id, contextValue]);
+
+    // Read out by the live region whenever the position changes
+    const announcement = `Section ${currentPage + 1} of ${count}${
+      slideCount > 0 ? `, slide ${currentSlide + 1} of ${slideCount}` : ""
+    }`;
+
+    // --- Render Window ---
+    // The page the deck last came to rest on stays mounted (and visible)
+    // until the move away from it has finished
+    const [settledPage, setSettledPage] = useState(currentPage);
+    useEffect(() => {
+      if (status === "idle") {
+        setSettledPage(currentPage);
+      }
+    }, [status, currentPage]);
+
+    // Distance in pages, the short way round in a looping deck
+    const getPageDistance = (a: number, b: number) => {
+      const distance = Math.abs(a - b);
+      return canLoopTop || canLoopBottom
+        ? Math.min(distance, count - distance)
+        : distance;
+    };
+
+    // Natural-flow mode always renders everything: it's all reachable
+    const isRendered = (index: number) =>
+      renderWindow === undefined ||
+      isResponsive ||
+      getPageDistance(index, currentPage) <= renderWindow ||
+      getPageDistance(index, settledPage) <= renderWindow;
+
+    const isVisible = (index: number) =>
+      index === currentPage ||
+      (status === "animating" && index === settledPage);
+
+    // A page change in progress: settledPage is being left for currentPage
+    const isChangingPage =
+      status === "animating" && settledPage !== currentPage;
+
+    // Non-interactive copy of an edge Section for the track to wrap onto
+    const renderLoopClone = (index: number) => (
+      <SectionContext.Provider
+        key={`loop-clone-${index}`}
+        value={{
+          index,
+          count,
+          slideIndex: slideIndexes[index] ?? 0,
+          direction,
+          slideDirection,
+          duration: isInstant ? 0 : slideDuration,
+          isResponsive,
+          isRendered: isRendered(index),
+          isActive: false,
+          isVisible: false,
+          isEntering: false,
+          isLeaving: false,
+          positionStore,
+          wrapProgress,
+          easing: cssEasing,
+          sectionRef: (el) => {
+            if (el) {
+              setHidden(el, true);
+            }
+          },
+          backgroundRef: () => {},
+          slideTrackRef: () => {},
+        }}
+      >
+        {/* The DOM id stays unique to the real Section */}
+        {React.cloneElement(sections[index], { id: undefined })}
+      </SectionContext.Provider>
     );
 
     return (
       <FullPageContext.Provider value={contextValue}>
-        <div
-          ref={containerRef}
-          className={`h-screen w-full overflow-hidden bg-gray-900 touch-none select-none ${className}`}
-          onMouseDown={onMouseDown}
-          onTouchStart={onTouchStart}
-          onTouchMove={onTouchMove}
-          onTouchEnd={onTouchEnd}
-          // Force GPU layer for the container too
-          style={{ perspective: "1000px" }}
-        >
-          {overlays}
-
-          <div
-            ref={innerRef}
-            className={`h-full w-full flex ${
-              isVertical ? "flex-col" : "flex-row"
-            }`}
-            style={{
-              transitionTimingFunction:
-                "cubic-bezier(0.645, 0.045, 0.355, 1.000)",
-              transitionProperty: "transform",
-              transform: isVertical
-                ? `translate3d(0, -${currentPage * 100}%, 0)`
-                : `translate3d(-${currentPage * 100}%, 0, 0)`,
-              transitionDuration: `${duration}ms`,
-              // Hardware acceleration hints
-              backfaceVisibility: "hidden",
-              perspective: "1000px",
-            }}
-          >
-            {slides}
-          </div>
-        </div>
+        <FullPageTreeContext.Provider value={treeValue}>
+          <PositionStoreContext.Provider value={positionStore}>
+            <div
+              ref={containerRef}
+              id={id}
+              data-fullpage=""
+              role="region"
+              aria-roledescription="carousel"
+              aria-label={ariaLabel}
+              className={cx(
+                "rfs-deck",
+                isNested && "rfs-deck--nested",
+                isResponsive && "rfs-deck--responsive",
+                className,
+                classNames?.root
+              )}
+              onMouseDown={onMouseDown}
+              onTouchStart={onTouchStart}
+              onTouchMove={onTouchMove}
+              onTouchEnd={onTouchEnd}
+              onPointerEnter={onPointerEnter}
+              onPointerLeave={onPointerLeave}
+              onFocus={onFocus}
+              onBlur={onBlur}
+              // Force GPU layer for the container too
+              style={{ ...styles?.root, perspective: "1000px" }}
+            >
+              {overlays}
+
+              {/* Silent while autoplay rotates, so it doesn't talk over the page */}
+              <div
+                className={cx("rfs-sr-only", classNames?.liveRegion)}
+                style={styles?.liveRegion}
+                aria-live={isPlaying && !isAutoplayHeld ? "off" : "polite"}
+                aria-atomic="true"
+              >
+                {announcement}
+              </div>
+
+              <div
+                ref={innerRef}
+                onTransitionEnd={handleTransitionEnd}
+                className={cx(
+                  "rfs-track",
+                  !isVertical && "rfs-track--horizontal",
+                  classNames?.track
+                )}
+                style={{
+                  ...styles?.track,
+                  transitionTimingFunction: cssEasing,
+                  transitionProperty: "transform",
+                  transform:
+                    effectFn || isResponsive
+                      ? "none"
+                      : getTrackTransform(pageTrackIndex, direction),
+                  transitionDuration: `${isInstant ? 0 : duration}ms`,
+                  // Hardware acceleration hints
+                  backfaceVisibility: "hidden",
+                  perspective: "1000px",
+                  // Lets the "cube" (and custom 3D) effects share one 3D scene
+                  transformStyle: effectFn ? "preserve-3d" : undefined,
+                }}
+              >
+                {hasTrackClones && canLoopTop && renderLoopClone(count - 1)}
+                {sections.map((section, index) => (
+                  <SectionContext.Provider
+                    key={section.key ?? index}
+                    value={{
+                      index,
+                      count,
+                      slideIndex: slideIndexes[index] ?? 0,
+                      direction,
+                      slideDirection,
+                      duration: isInstant ? 0 : slideDuration,
+                      isResponsive,
+                      isRendered: isRendered(index),
+                      isActive: index === currentPage,
+                      isVisible: isVisible(index),
+                      isEntering: isChangingPage && index === currentPage,
+                      isLeaving: isChangingPage && index === settledPage,
+                      positionStore,
+                      wrapProgress,
+                      easing: cssEasing,
+                      sectionRef: (el) => {
+                        sectionRefs.current[index] = el;
+                      },
+                      backgroundRef: (el) => {
+                        backgroundRefs.current[index] = el;
+                      },
+                      slideTrackRef: (el) => {
+                        slideTrackRefs.current[index] = el;
+                      },
+                    }}
+                  >
+                    {section}
+                  </SectionContext.Provider>
+                ))}
+                {hasTrackClones && canLoopBottom && renderLoopClone(0)}
+              </div>
+            </div>
+          </PositionStoreContext.Provider>
+        </FullPageTreeContext.Provider>
       </FullPageContext.Provider>
     );
   }
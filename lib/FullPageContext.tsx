@@ -1,14 +1,28 @@
 import { createContext, useContext } from "react";
 import { FullPageContextType } from "./types";
+import { useFullPageById } from "./FullPageRegistry";
 
 export const FullPageContext = createContext<FullPageContextType | undefined>(
   undefined
 );
 
-export const useFullPage = (): FullPageContextType => {
+/**
+ * The nearest FullPage's state and controls, or the FullPage with the given
+ * `id`. Decks above the caller resolve immediately; others (siblings, or
+ * decks rendered elsewhere) resolve once they have mounted, and are
+ * undefined until then.
+ */
+export function useFullPage(): FullPageContextType;
+export function useFullPage(id: string): FullPageContextType | undefined;
+export function useFullPage(id?: string): FullPageContextType | undefined {
   const context = useContext(FullPageContext);
+  const byId = useFullPageById(id);
+
+  if (id !== undefined) {
+    return byId;
+  }
   if (!context) {
     throw new Error("useFullPage must be used within a FullPage provider");
   }
   return context;
-};
+}
@@ -0,0 +1,58 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { FullPageContextType } from "./types";
+
+// Internal: every deck with an `id` above this point in the tree, by id
+export const FullPageTreeContext = createContext<
+  Record<string, FullPageContextType>
+>({});
+
+// Internal: mounted decks with an `id`, so controls outside them (e.g. in a
+// sibling tree) can reach them too
+const registry = new Map<string, FullPageContextType>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const registerFullPage = (id: string, value: FullPageContextType) => {
+  registry.set(id, value);
+  notify();
+  return () => {
+    if (registry.get(id) === value) {
+      registry.delete(id);
+      notify();
+    }
+  };
+};
+
+// The registered deck with this id, kept up to date; undefined skips lookup
+const useRegisteredFullPage = (id: string | undefined) => {
+  const [value, setValue] = useState(() =>
+    id === undefined ? undefined : registry.get(id)
+  );
+
+  useEffect(() => {
+    if (id === undefined) {
+      setValue(undefined);
+      return;
+    }
+
+    const update = () => setValue(registry.get(id));
+    update();
+    listeners.add(update);
+    return () => {
+      listeners.delete(update);
+    };
+  }, [id]);
+
+  return value;
+};
+
+// The deck with this id: an enclosing one right away, otherwise the
+// registered one once it mounts; undefined skips lookup
+export const useFullPageById = (id: string | undefined) => {
+  const ancestors = useContext(FullPageTreeContext);
+  const registered = useRegisteredFullPage(
+    id !== undefined && !(id in ancestors) ? id : undefined
+  );
+  return id !== undefined ? ancestors[id] ?? registered : undefined;
+};
@@ -0,0 +1,107 @@
+import React, { createContext, useContext } from "react";
+import { buildHash } from "./anchors";
+import { FullPageContext } from "./FullPageContext";
+import { useFullPageById } from "./FullPageRegistry";
+import { FullPageContextType, MenuItemProps, MenuProps } from "./types";
+import { cx } from "./utils";
+
+// The deck a Menu follows, shared with its items wherever they render
+const MenuContext = createContext<FullPageContextType | undefined>(undefined);
+
+/**
+ * Menu
+ * Navigation links for a FullPage, e.g. in a site header. Renders inside
+ * the deck (as an overlay child) or anywhere else with `deckId`; its
+ * MenuItems follow that deck's current Section.
+ */
+export const Menu: React.FC<MenuProps> = ({
+  children,
+  deckId,
+  ariaLabel = "Sections",
+  className,
+  style,
+}) => {
+  const nearest = useContext(FullPageContext);
+  const byId = useFullPageById(deckId);
+  const deck = deckId !== undefined ? byId : nearest;
+
+  return (
+    <MenuContext.Provider value={deck}>
+      <nav
+        aria-label={ariaLabel}
+        className={cx("rfs-menu", className)}
+        style={style}
+      >
+        {children}
+      </nav>
+    </MenuContext.Provider>
+  );
+};
+
+/**
+ * MenuItem
+ * A link to one Section. Anchored items render a real `#anchor` link (so
+ * they can be opened in a new tab); others render a button. The active item
+ * gets `aria-current` and the `rfs-menu__item--active` class.
+ */
+export const MenuItem: React.FC<MenuItemProps> = ({
+  children,
+  page,
+  anchor,
+  slide,
+  className,
+  activeClassName,
+  style,
+}) => {
+  const menuDeck = useContext(MenuContext);
+  const nearest = useContext(FullPageContext);
+  // Items used without a Menu follow the enclosing deck
+  const deck = menuDeck ?? nearest;
+
+  const index =
+    page ?? (anchor !== undefined ? deck?.anchors.indexOf(anchor) ?? -1 : -1);
+  const isActive =
+    deck !== undefined &&
+    index === deck.currentPage &&
+    (slide === undefined || slide === deck.currentSlide);
+
+  // The deck's hash for the target, or this item's own anchor before the
+  // deck is found (or when the deck doesn't list it)
+  const position = { section: index, slide: slide ?? 0 };
+  const href =
+    anchor !== undefined
+      ? (deck && buildHash(position, deck.anchors)) ||
+        buildHash({ ...position, section: 0 }, [anchor])
+      : undefined;
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Let modified clicks open the link in a new tab or window
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    // Without a deck to move, the link falls back to its native hash
+    if (!deck || index === -1) return;
+    e.preventDefault();
+    deck.goTo(index, slide);
+  };
+
+  const itemProps = {
+    className: cx(
+      "rfs-menu__item",
+      isActive && "rfs-menu__item--active",
+      className,
+      isActive && activeClassName
+    ),
+    style,
+    "aria-current": isActive ? ("true" as const) : undefined,
+    onClick: handleClick,
+  };
+
+  return href !== undefined ? (
+    <a href={href} {...itemProps}>
+      {children}
+    </a>
+  ) : (
+    <button type="button" {...itemProps}>
+      {children}
+    </button>
+  );
+};
@@ -1,24 +1,163 @@
-import React from "react";
-import { SectionProps } from "./types";
+import React, { useEffect, useState } from "react";
+import {
+  FullPageSectionState,
+  FullPageSectionVisibility,
+  SectionProps,
+} from "./types";
+import { useSectionContext } from "./SectionContext";
+import {
+  DEFAULT_EASING,
+  cx,
+  getTrackTransform,
+  isMarkedElement,
+} from "./utils";
 
 /**
  * Section Component
  * Represents a single fullscreen page within the FullPage container.
+ * Any <Slide> children are laid out on their own track along the cross axis.
  */
 export const Section: React.FC<SectionProps> = ({
   children,
-  className = "",
+  className,
   style,
+  classNames,
+  styles,
+  id,
+  background,
+  scrollable = false,
+  keepMounted = false,
 }) => {
+  const section = useSectionContext();
+  // Outside the render window only the empty frame is kept, holding its place
+  const isRendered = keepMounted || (section?.isRendered ?? true);
+
+  const childrenArray = React.Children.toArray(children);
+  const slides = childrenArray.filter((child) =>
+    isMarkedElement(child, "isFullPageSlide")
+  );
+  // Non-slide children stay static above the slide track (e.g. arrows)
+  const content =
+    slides.length === 0
+      ? children
+      : childrenArray.filter(
+          (child) => !isMarkedElement(child, "isFullPageSlide")
+        );
+  const slideDirection = section?.slideDirection ?? "horizontal";
+  // Native scrolling (incl. touch panning) along the main axis only
+  const scrollClass =
+    scrollable && !section?.isResponsive
+      ? section?.direction === "horizontal"
+        ? "rfs-section--scroll-x"
+        : "rfs-section--scroll-y"
+      : null;
+
   return (
     <div
-      className={`h-full w-full flex-shrink-0 overflow-hidden relative ${className}`}
-      style={style}
+      ref={section?.sectionRef}
+      id={id}
+      role="group"
+      aria-roledescription="section"
+      aria-label={
+        section ? `${section.index + 1} of ${section.count}` : undefined
+      }
+      // Focus target after a transition, never a tab stop
+      tabIndex={-1}
+      className={cx(
+        "rfs-section",
+        section?.isResponsive && "rfs-section--responsive",
+        scrollClass,
+        background && "rfs-section--background",
+        className,
+        classNames?.root
+      )}
+      style={{ ...style, ...styles?.root }}
     >
-      {children}
+      {isRendered && background && (
+        <div
+          ref={section?.backgroundRef}
+          className={cx("rfs-section__background", classNames?.background)}
+          style={styles?.background}
+          aria-hidden="true"
+        >
+          {background}
+        </div>
+      )}
+
+      {isRendered && content}
+
+      {isRendered && slides.length > 0 && (
+        <div
+          ref={section?.slideTrackRef}
+          className={cx(
+            "rfs-slide-track",
+            slideDirection === "vertical" && "rfs-slide-track--vertical",
+            classNames?.slideTrack
+          )}
+          style={{
+            ...styles?.slideTrack,
+            transitionTimingFunction: section?.easing ?? DEFAULT_EASING,
+            transitionProperty: "transform",
+            transform: getTrackTransform(
+              section?.slideIndex ?? 0,
+              slideDirection
+            ),
+            transitionDuration: `${section?.duration ?? 0}ms`,
+            backfaceVisibility: "hidden",
+          }}
+        >
+          {slides}
+        </div>
+      )}
     </div>
   );
 };
 
+/**
+ * Visibility of the enclosing Section, e.g. to pause media when it leaves.
+ * `isVisible` also covers the Section a transition is moving away from.
+ */
+export const useSectionVisibility = (): FullPageSectionVisibility => {
+  const section = useSectionContext();
+  return {
+    isActive: section?.isActive ?? true,
+    isVisible: section?.isVisible ?? true,
+  };
+};
+
+/**
+ * State of the enclosing Section, with `progress` following drags, springs
+ * and transitions frame by frame (the same values effects receive). Only
+ * Sections whose clamped progress changes re-render, so it is cheap to use
+ * for scroll-linked animations.
+ */
+export const useSection = (): FullPageSectionState => {
+  const section = useSectionContext();
+  const index = section?.index ?? 0;
+  const positionStore = section?.positionStore;
+  const wrapProgress = section?.wrapProgress;
+
+  const readProgress = () =>
+    positionStore && wrapProgress
+      ? Math.min(Math.max(wrapProgress(index - positionStore.get()), -1), 1)
+      : 0;
+  const [progress, setProgress] = useState(readProgress);
+
+  useEffect(() => {
+    if (!positionStore) return;
+    const update = () => setProgress(readProgress());
+    update();
+    return positionStore.subscribe(update);
+  }, [positionStore, wrapProgress, index]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return {
+    index,
+    isActive: section?.isActive ?? true,
+    isEntering: section?.isEntering ?? false,
+    isLeaving: section?.isLeaving ?? false,
+    progress,
+  };
+};
+
 // Mark this component so FullPage knows it belongs in the scroll container
 Section.isFullPageSection = true;
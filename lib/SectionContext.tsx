@@ -0,0 +1,32 @@
+import { createContext, useContext } from "react";
+import { FullPageDirection } from "./types";
+import { PositionStore } from "./positionStore";
+
+// Internal: lets each Section know where it sits inside its FullPage
+export interface SectionContextType {
+  index: number;
+  count: number;
+  slideIndex: number;
+  direction: FullPageDirection;
+  slideDirection: FullPageDirection;
+  duration: number;
+  isResponsive: boolean;
+  isRendered: boolean; // Inside the render window: content is mounted
+  isActive: boolean;
+  isVisible: boolean;
+  isEntering: boolean;
+  isLeaving: boolean;
+  positionStore: PositionStore; // Live page position, for useSection()'s progress
+  wrapProgress: (progress: number) => number;
+  easing: string;
+  sectionRef: (el: HTMLDivElement | null) => void;
+  backgroundRef: (el: HTMLDivElement | null) => void;
+  slideTrackRef: (el: HTMLDivElement | null) => void;
+}
+
+export const SectionContext = createContext<SectionContextType | undefined>(
+  undefined
+);
+
+export const useSectionContext = (): SectionContextType | undefined =>
+  useContext(SectionContext);
@@ -0,0 +1,19 @@
+import React from "react";
+import { SlideProps } from "./types";
+import { cx } from "./utils";
+
+/**
+ * Slide Component
+ * A horizontal page nested inside a Section. Slides of the same Section
+ * form a track that runs across the main FullPage direction.
+ */
+export const Slide: React.FC<SlideProps> = ({ children, className, style }) => {
+  return (
+    <div tabIndex={-1} className={cx("rfs-slide", className)} style={style}>
+      {children}
+    </div>
+  );
+};
+
+// Mark this component so Section knows it belongs in the slide track
+Slide.isFullPageSlide = true;
@@ -0,0 +1,41 @@
+import { FullPagePosition } from "./types";
+
+export type AnchorList = (string | undefined)[];
+
+/**
+ * Resolves a location hash like `#features` or `#gallery/2` (slide index)
+ * to a position. Returns null when the hash matches no anchor.
+ */
+export const parseHash = (
+  hash: string,
+  anchors: AnchorList
+): FullPagePosition | null => {
+  let value: string;
+  try {
+    value = decodeURIComponent(hash.replace(/^#/, ""));
+  } catch {
+    // Malformed escapes (e.g. "#%") can't name an anchor
+    return null;
+  }
+  if (!value) return null;
+
+  const [anchor, slide] = value.split("/");
+  const section = anchors.indexOf(anchor);
+  if (section === -1) return null;
+
+  const slideIndex = Number(slide);
+  return {
+    section,
+    slide: Number.isInteger(slideIndex) && slideIndex > 0 ? slideIndex : 0,
+  };
+};
+
+// Builds the hash for a position, or "" when the section has no anchor
+export const buildHash = (
+  { section, slide }: FullPagePosition,
+  anchors: AnchorList
+): string => {
+  const anchor = anchors[section];
+  if (!anchor) return "";
+  return `#${encodeURIComponent(anchor)}${slide > 0 ? `/${slide}` : ""}`;
+};
@@ -0,0 +1,169 @@
+import { FullPageEasing, FullPageSpringConfig } from "./types";
+
+const EASING_SAMPLES = 40;
+
+/**
+ * Resolves the `easing` prop to a CSS timing function. JS easing functions
+ * are sampled into a CSS `linear()` curve, so transitions stay on the
+ * compositor and still end with a regular `transitionend`.
+ */
+export const toCssEasing = (easing: FullPageEasing): string => {
+  if (typeof easing === "string") return easing;
+
+  const points = Array.from({ length: EASING_SAMPLES + 1 }, (_, i) =>
+    Number(easing(i / EASING_SAMPLES).toFixed(4))
+  );
+  return `linear(${points.join(", ")})`;
+};
+
+export const DEFAULT_SPRING: Required<FullPageSpringConfig> = {
+  stiffness: 170,
+  damping: 26,
+  mass: 1,
+};
+
+interface SpringOptions {
+  from: number;
+  to: number;
+  velocity: number; // Units per second, e.g. pages/s
+  config?: FullPageSpringConfig;
+  onUpdate: (value: number) => void;
+  onRest: () => void;
+}
+
+/**
+ * Runs a damped spring from `from` to `to` on requestAnimationFrame, seeded
+ * with an initial velocity so a flick carries straight into the snap.
+ * Returns a cancel function (which does not call `onRest`).
+ */
+export const animateSpring = ({
+  from,
+  to,
+  velocity,
+  config,
+  onUpdate,
+  onRest,
+}: SpringOptions): (() => void) => {
+  const { stiffness, damping, mass } = { ...DEFAULT_SPRING, ...config };
+  let value = from;
+  let speed = velocity;
+  let lastTime = performance.now();
+
+  const step = (now: number) => {
+    // Clamp the frame time so a throttled tab can't destabilize the spring
+    const elapsed = Math.min((now - lastTime) / 1000, 0.064);
+    lastTime = now;
+
+    // Integrate in small sub-steps for stability with stiff springs
+    const subSteps = Math.max(1, Math.ceil(elapsed / 0.004));
+    const h = elapsed / subSteps;
+    for (let i = 0; i < subSteps; i++) {
+      const force = -stiffness * (value - to) - damping * speed;
+      speed += (force / mass) * h;
+      value += speed * h;
+    }
+
+    if (Math.abs(speed) < 0.01 && Math.abs(value - to) < 0.001) {
+      onUpdate(to);
+      onRest();
+      return;
+    }
+
+    onUpdate(value);
+    frame = requestAnimationFrame(step);
+  };
+
+  let frame = requestAnimationFrame(step);
+  return () => cancelAnimationFrame(frame);
+};
+
+// Control points of the CSS keyword timing functions
+const CSS_EASING_KEYWORDS: Record<string, [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+// Evaluates a CSS cubic-bezier(x1, y1, x2, y2) at time t
+const cubicBezier =
+  (x1: number, y1: number, x2: number, y2: number) => (t: number) => {
+    const sample = (a: number, b: number, s: number) =>
+      3 * a * s * (1 - s) ** 2 + 3 * b * s * s * (1 - s) + s ** 3;
+
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+
+    // Solve x(s) = t by bisection; x is monotonic for valid control points
+    let low = 0;
+    let high = 1;
+    let s = t;
+    for (let i = 0; i < 30; i++) {
+      s = (low + high) / 2;
+      if (sample(x1, x2, s) < t) {
+        low = s;
+      } else {
+        high = s;
+      }
+    }
+    return sample(y1, y2, s);
+  };
+
+/**
+ * Resolves the `easing` prop to a JS function, for values that follow a
+ * CSS transition frame by frame. Timing functions other than the keywords
+ * and cubic-bezier() (e.g. steps()) are approximated as linear.
+ */
+export const toEasingFunction = (
+  easing: FullPageEasing
+): ((t: number) => number) => {
+  if (typeof easing === "function") return easing;
+
+  const keyword = CSS_EASING_KEYWORDS[easing.trim()];
+  if (keyword) return cubicBezier(...keyword);
+
+  const match = easing.match(/^\s*cubic-bezier\(([^)]+)\)\s*$/);
+  const points = match?.[1].split(",").map(Number);
+  if (points && points.length === 4 && points.every(Number.isFinite)) {
+    return cubicBezier(points[0], points[1], points[2], points[3]);
+  }
+  return (t) => t;
+};
+
+interface TweenOptions {
+  from: number;
+  to: number;
+  duration: number;
+  easing: (t: number) => number;
+  onUpdate: (value: number) => void;
+  onRest: () => void;
+}
+
+/**
+ * Runs an eased tween from `from` to `to` on requestAnimationFrame, e.g. to
+ * mirror a CSS transition. Returns a cancel function (which does not call
+ * `onRest`).
+ */
+export const animateTween = ({
+  from,
+  to,
+  duration,
+  easing,
+  onUpdate,
+  onRest,
+}: TweenOptions): (() => void) => {
+  const start = performance.now();
+
+  const step = (now: number) => {
+    const t = duration > 0 ? Math.min((now - start) / duration, 1) : 1;
+    onUpdate(from + (to - from) * easing(t));
+    if (t < 1) {
+      frame = requestAnimationFrame(step);
+    } else {
+      onRest();
+    }
+  };
+
+  let frame = requestAnimationFrame(step);
+  return () => cancelAnimationFrame(frame);
+};
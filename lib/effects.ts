@@ -0,0 +1,97 @@
+import { CSSProperties } from "react";
+import {
+  FullPageEffect,
+  FullPageEffectFunction,
+  FullPageEffectName,
+} from "./types";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Built-in effects. `progress` is the Section's distance from the current
+ * position: 0 when active, 1 for the next page, -1 for the previous one,
+ * and fractional values while dragging or animating.
+ *
+ * "slide" is not listed: it moves the whole track instead of each Section.
+ */
+export const builtInEffects: Record<
+  Exclude<FullPageEffectName, "slide">,
+  FullPageEffectFunction
+> = {
+  fade: (progress) => ({
+    section: {
+      opacity: 1 - clamp(Math.abs(progress), 0, 1),
+      zIndex: Math.abs(progress) < 0.5 ? 2 : 1,
+    },
+  }),
+
+  // Each card slides in over the previous one, which shrinks back slightly.
+  // Cards further ahead sit on top (by progress, so looping decks stack too).
+  stack: (progress, { count, direction }) => {
+    const offset = Math.max(progress, 0) * 100;
+    const scale = 1 + Math.min(progress, 0) * 0.1;
+    return {
+      section: {
+        transform: `${
+          direction === "vertical"
+            ? `translate3d(0, ${offset}%, 0)`
+            : `translate3d(${offset}%, 0, 0)`
+        } scale(${scale})`,
+        zIndex: count + Math.ceil(progress),
+      },
+    };
+  },
+
+  // Sections move at full speed, their background layer at half speed
+  parallax: (progress, { direction }) => {
+    const axis = direction === "vertical" ? "Y" : "X";
+    return {
+      section: {
+        transform: `translate${axis}(${progress * 100}%)`,
+      },
+      background: {
+        transform: `translate${axis}(${progress * -50}%)`,
+      },
+    };
+  },
+
+  cube: (progress, { direction, size }) => ({
+    section: {
+      transformOrigin: `50% 50% -${size / 2}px`,
+      transform:
+        direction === "vertical"
+          ? `rotateX(${progress * -90}deg)`
+          : `rotateY(${progress * 90}deg)`,
+      backfaceVisibility: "hidden",
+      zIndex: Math.abs(progress) < 0.5 ? 2 : 1,
+    },
+  }),
+};
+
+// Returns the per-Section style function, or null for the track-based "slide"
+export const resolveEffect = (
+  effect: FullPageEffect
+): FullPageEffectFunction | null => {
+  if (typeof effect === "function") return effect;
+  if (effect === "slide") return null;
+  return builtInEffects[effect];
+};
+
+/**
+ * Writes `next` onto an element and clears any property from `prev` that is
+ * no longer set, so switching effects doesn't leave stale styles behind.
+ */
+export const applyStyles = (
+  el: HTMLElement,
+  next: CSSProperties,
+  prev: CSSProperties = {}
+) => {
+  const style = el.style as unknown as Record<string, string>;
+  Object.keys(prev).forEach((key) => {
+    if (!(key in next)) style[key] = "";
+  });
+  Object.entries(next).forEach(([key, value]) => {
+    style[key] = value === undefined ? "" : String(value);
+  });
+};
@@ -1,5 +1,10 @@
+import "./style.css";
+
 export * from "./types";
 export * from "./FullPage";
 export * from "./Section";
+export * from "./Slide";
 export * from "./Controls";
+export * from "./useNavigation";
+export * from "./Menu";
 export * from "./FullPageContext";
@@ -0,0 +1,55 @@
+import { FullPageDirection, FullPageKeyMap } from "./types";
+
+export type FullPageKeyAction = keyof FullPageKeyMap;
+
+// Default bindings; horizontal decks also page with the left/right arrows
+export const getDefaultKeyMap = (
+  direction: FullPageDirection
+): FullPageKeyMap => ({
+  next:
+    direction === "vertical"
+      ? ["ArrowDown", "PageDown", " "]
+      : ["ArrowRight", "ArrowDown", "PageDown", " "],
+  prev:
+    direction === "vertical"
+      ? ["ArrowUp", "PageUp"]
+      : ["ArrowLeft", "ArrowUp", "PageUp"],
+  first: ["Home"],
+  last: ["End"],
+});
+
+// The action bound to `key`, or null if the key isn't mapped
+export const getKeyAction = (
+  keyMap: FullPageKeyMap,
+  key: string
+): FullPageKeyAction | null => {
+  const actions = Object.keys(keyMap) as FullPageKeyAction[];
+  return actions.find((action) => keyMap[action]?.includes(key)) ?? null;
+};
+
+/**
+ * True when the key belongs to the focused element: text fields, selects,
+ * editable content and widgets that use the arrows themselves. Space and
+ * Enter also stay with buttons and links, which they activate.
+ */
+export const isKeyForTarget = (e: KeyboardEvent) => {
+  const target = e.target as HTMLElement | null;
+  if (!target || typeof target.closest !== "function") return false;
+  if (target.isContentEditable) return true;
+  if (
+    target.closest(
+      "input, textarea, select, [role='textbox'], [role='combobox'], [role='listbox'], [role='slider'], [role='spinbutton']"
+    )
+  ) {
+    return true;
+  }
+  return (
+    (e.key === " " || e.key === "Enter") &&
+    Boolean(target.closest("button, a[href], summary, [role='button']"))
+  );
+};
+
+// An open dialog owns the keyboard, wherever it is rendered (e.g. a portal)
+export const isDialogOpen = () =>
+  typeof document !== "undefined" &&
+  document.querySelector("dialog[open], [aria-modal='true']") !== null;
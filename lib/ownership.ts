@@ -0,0 +1,38 @@
+/**
+ * Gesture ownership between nested decks. Inner decks see every event
+ * first (wheel events bubble, and their listeners are registered first),
+ * so they claim what they handle and outer decks skip claimed input.
+ */
+
+// Wheel events a nested deck has already acted on
+const claimedEvents = new WeakSet<Event>();
+
+export const claimEvent = (e: Event) => {
+  claimedEvents.add(e);
+};
+
+export const isEventClaimed = (e: Event) => claimedEvents.has(e);
+
+// Container of the deck following the current drag, once it locked an axis
+let dragOwner: HTMLElement | null = null;
+
+// Returns false when another deck already owns the drag
+export const claimDrag = (container: HTMLElement) => {
+  if (dragOwner && dragOwner !== container && dragOwner.isConnected) {
+    return false;
+  }
+  dragOwner = container;
+  return true;
+};
+
+export const releaseDrag = (container: HTMLElement | null) => {
+  if (dragOwner === container) {
+    dragOwner = null;
+  }
+};
+
+// True when focus sits in a deck nested inside `container`, which owns the keys
+export const isFocusInNestedDeck = (container: HTMLElement) => {
+  const owner = document.activeElement?.closest("[data-fullpage]");
+  return Boolean(owner && owner !== container && container.contains(owner));
+};
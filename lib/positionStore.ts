@@ -0,0 +1,37 @@
+import { createContext } from "react";
+
+/**
+ * Internal: the deck's live (fractional) page position, published on every
+ * drag, spring and transition frame. Sections subscribe to it directly, so
+ * following the position doesn't re-render the whole tree every frame.
+ */
+export interface PositionStore {
+  get: () => number;
+  set: (position: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createPositionStore = (initial: number): PositionStore => {
+  let position = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => position,
+    set: (next) => {
+      if (next === position) return;
+      position = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Internal: the nearest deck's store, for controls that follow it live
+export const PositionStoreContext = createContext<PositionStore | undefined>(
+  undefined
+);
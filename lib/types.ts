@@ -1,36 +1,351 @@
-import { ReactNode, CSSProperties } from "react";
+import { ReactNode, CSSProperties, KeyboardEventHandler } from "react";
 
 export type FullPageDirection = "vertical" | "horizontal";
 
+// How navigation is written to the URL hash: a new entry, in place, or not at all
+export type FullPageHistoryMode = "push" | "replace" | false;
+
+// Follow the OS `prefers-reduced-motion` setting, or force it on / off
+export type FullPageReducedMotion = "auto" | "always" | "never";
+
+// Where keys are taken from: anywhere on the page, while the deck is hovered
+// or focused, or only while focus is inside it
+export type FullPageKeyboardScope = "window" | "container" | "focus-within";
+
+// `KeyboardEvent.key` values bound to each keyboard action
+export interface FullPageKeyMap {
+  next: string[];
+  prev: string[];
+  first: string[];
+  last: string[];
+}
+
+// Transition state machine: free, following the pointer, or animating to a page
+export type FullPageStatus = "idle" | "dragging" | "animating";
+
+export type FullPageEffectName =
+  | "slide"
+  | "fade"
+  | "stack"
+  | "parallax"
+  | "cube";
+
+export interface FullPageEffectInfo {
+  index: number; // Index of the Section being styled
+  count: number;
+  direction: FullPageDirection;
+  size: number; // Container size along the scroll axis, in px
+}
+
+export interface FullPageEffectStyles {
+  section: CSSProperties;
+  background?: CSSProperties; // Applied to the Section's `background` layer
+}
+
+// Custom effect: maps a Section's progress (-1 previous, 0 active, 1 next) to styles
+export type FullPageEffectFunction = (
+  progress: number,
+  info: FullPageEffectInfo
+) => FullPageEffectStyles;
+
+export type FullPageEffect = FullPageEffectName | FullPageEffectFunction;
+
+// A CSS timing function, or a JS easing mapping time 0..1 to progress 0..1
+export type FullPageEasing = string | ((t: number) => number);
+
+export interface FullPageSpringConfig {
+  stiffness?: number;
+  damping?: number;
+  mass?: number;
+}
+
+export interface FullPageAutoplayConfig {
+  interval?: number; // ms on each Section before advancing
+  resumeDelay?: number; // ms after the last interaction before playing again
+}
+
+// Which way a page change moves through the deck
+export type FullPageMoveDirection = "next" | "prev";
+
+// A 2D position inside the deck: the section and the slide within it
+export interface FullPagePosition {
+  section: number;
+  slide: number;
+}
+
+// Extra class names and inline styles for a component's internal elements,
+// applied on top of the namespaced defaults from style.css
+export type FullPageSlotClassNames<Slot extends string> = Partial<
+  Record<Slot, string>
+>;
+export type FullPageSlotStyles<Slot extends string> = Partial<
+  Record<Slot, CSSProperties>
+>;
+
+export type FullPageSlot = "root" | "track" | "liveRegion";
+export type SectionSlot = "root" | "background" | "slideTrack";
+export type NavigationDotsSlot =
+  | "root"
+  | "item"
+  | "dot"
+  | "activeDot"
+  | "tooltip";
+export type AutoplayControlSlot = "root" | "icon";
+export type ProgressBarSlot = "root" | "bar";
+export type PageCounterSlot = "root" | "current" | "separator" | "total";
+export type PrevNextArrowsSlot = "root" | "prev" | "next" | "icon";
+
 export interface FullPageProps {
   children: ReactNode;
   duration?: number; // Animation duration in ms
+  easing?: FullPageEasing;
+  spring?: boolean | FullPageSpringConfig; // Snap drag releases with a velocity-seeded spring
+  wheelSensitivity?: number; // Accumulated wheel delta (px) that triggers a page change
+  wheelDebounce?: number; // ms without wheel events before a new gesture can start
   onLeave?: (origin: number, destination: number) => void;
+  onSlideLeave?: (section: number, origin: number, destination: number) => void;
+  // Return false (or a Promise resolving to false) to cancel the page change
+  beforeLeave?: (
+    origin: number,
+    destination: number,
+    direction: FullPageMoveDirection
+  ) => boolean | void | Promise<boolean | void>;
+  afterLoad?: (
+    origin: number,
+    destination: number,
+    direction: FullPageMoveDirection
+  ) => void;
+  afterRender?: () => void;
+  afterResize?: (width: number, height: number) => void;
   className?: string;
+  classNames?: FullPageSlotClassNames<FullPageSlot>;
+  styles?: FullPageSlotStyles<FullPageSlot>;
   direction?: FullPageDirection;
+  effect?: FullPageEffect;
+  // Below these sizes (px), or while the query matches, fall back to native scrolling
+  responsiveWidth?: number;
+  responsiveHeight?: number;
+  responsiveQuery?: string;
+  anchors?: string[]; // Fallback anchors for Sections without an `anchor` prop
+  history?: FullPageHistoryMode;
+  // Wrap around at the edges: prev on the first Section, next on the last
+  loop?: boolean;
+  loopTop?: boolean; // Overrides `loop` for the first Section
+  loopBottom?: boolean; // Overrides `loop` for the last Section
+  // Advance on a timer; paused by hover, focus, drags and hidden tabs
+  autoplay?: boolean | FullPageAutoplayConfig;
+  ariaLabel?: string; // Accessible name of the deck's region
+  reducedMotion?: FullPageReducedMotion;
+  keyboardScope?: FullPageKeyboardScope;
+  keyMap?: Partial<FullPageKeyMap>; // Replaces the default keys of each action given
+  id?: string; // DOM id, and the name useFullPage(id) looks the deck up by
+  // Only mount Sections within this many pages of the current one
+  renderWindow?: number;
+  initialPage?: number; // Section shown on the first render, on server and client
+  // Controlled mode: the Section to show; changes are requested via onPageChange
+  activePage?: number;
+  defaultPage?: number; // Starting Section when uncontrolled (same as initialPage)
+  onPageChange?: (page: number) => void;
+  // Sections were added, removed or reordered; `page` is the (kept) current one
+  onSectionsChange?: (count: number, page: number) => void;
 }
 
 export interface SectionProps {
   children: ReactNode;
   className?: string;
   style?: CSSProperties;
+  classNames?: FullPageSlotClassNames<SectionSlot>;
+  styles?: FullPageSlotStyles<SectionSlot>;
+  id?: string; // DOM id, and the stable identity goToId(id) and reordering use
+  anchor?: string; // URL hash (without "#") that deep links to this section
+  background?: ReactNode; // Layer behind the content, offset by the "parallax" effect
+  scrollable?: boolean; // Scroll overflowing content first, then hand off to next/prev
+  autoplayInterval?: number; // Overrides the autoplay interval (ms) on this section
+  keepMounted?: boolean; // Stay mounted outside the deck's `renderWindow`
+  navigationTooltip?: string; // Label of this section in NavigationDots and useNavigation
+  // Keep the deck from leaving this section forwards / backwards (slides still move)
+  lockNext?: boolean;
+  lockPrev?: boolean;
+}
+
+export interface FullPageSectionVisibility {
+  isActive: boolean; // The current Section
+  isVisible: boolean; // On screen: current, or being left by a transition
+}
+
+export interface FullPageSectionState {
+  index: number;
+  isActive: boolean;
+  isEntering: boolean; // Animating in to become the current Section
+  isLeaving: boolean; // Animating out after being the current Section
+  // Distance from the live position, clamped to -1..1: 0 when in place,
+  // -1 once scrolled past, 1 while still ahead
+  progress: number;
+}
+
+export interface SlideProps {
+  children: ReactNode;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// Viewport edge the navigation dots are pinned to
+export type NavigationDotsPosition = "left" | "right" | "top" | "bottom";
+
+export interface NavigationDotsProps {
+  position?: NavigationDotsPosition; // Defaults to "right" (vertical) or "bottom" (horizontal)
+  showActiveTooltip?: boolean; // Keep the active dot's tooltip visible, not only on hover/focus
+  // Replaces each default dot; use useNavigation() to keep the tablist semantics
+  renderDot?: (
+    index: number,
+    isActive: boolean,
+    goTo: (page: number, slide?: number) => void
+  ) => ReactNode;
+  className?: string;
+  classNames?: FullPageSlotClassNames<NavigationDotsSlot>;
+  styles?: FullPageSlotStyles<NavigationDotsSlot>;
+}
+
+export interface AutoplayControlProps {
+  className?: string;
+  classNames?: FullPageSlotClassNames<AutoplayControlSlot>;
+  styles?: FullPageSlotStyles<AutoplayControlSlot>;
+}
+
+export interface ProgressBarProps {
+  position?: "top" | "bottom"; // Viewport edge the bar runs along
+  className?: string;
+  classNames?: FullPageSlotClassNames<ProgressBarSlot>;
+  styles?: FullPageSlotStyles<ProgressBarSlot>;
+}
+
+export interface PageCounterProps {
+  pad?: number; // Minimum digits, zero-padded: 2 renders "03 / 07"
+  separator?: ReactNode;
+  className?: string;
+  classNames?: FullPageSlotClassNames<PageCounterSlot>;
+  styles?: FullPageSlotStyles<PageCounterSlot>;
+}
+
+export interface PrevNextArrowsProps {
+  className?: string;
+  classNames?: FullPageSlotClassNames<PrevNextArrowsSlot>;
+  styles?: FullPageSlotStyles<PrevNextArrowsSlot>;
+}
+
+export interface MenuProps {
+  children: ReactNode;
+  deckId?: string; // `id` of the FullPage to follow; defaults to the enclosing one
+  ariaLabel?: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// Links to a Section by `page` index or by its `anchor`
+export interface MenuItemProps {
+  children: ReactNode;
+  page?: number;
+  anchor?: string;
+  slide?: number; // Also go to (and only be active on) this slide
+  className?: string;
+  activeClassName?: string; // Added while the linked Section is the current one
+  style?: CSSProperties;
 }
 
 export interface FullPageContextType {
   currentPage: number;
+  currentSlide: number;
+  position: FullPagePosition;
   count: number;
+  slideCount: number; // Number of slides in the current section (0 if none)
   next: () => void;
   prev: () => void;
-  goTo: (page: number) => void;
-  isScrolling: boolean;
+  hasNext: boolean; // False on the last page (unless looping) or when locked
+  hasPrev: boolean; // False on the first page (unless looping) or when locked
+  nextSlide: () => void;
+  prevSlide: () => void;
+  goTo: (page: number, slide?: number) => void;
+  isScrolling: boolean; // Shorthand for status === "animating"
+  status: FullPageStatus;
+  isResponsive: boolean; // Natural document scrolling instead of snapping
+  isReducedMotion: boolean; // Resolved `reducedMotion`: crossfades, no drag follow
   direction: FullPageDirection;
+  slideDirection: FullPageDirection;
+  play: () => void;
+  pause: () => void;
+  isPlaying: boolean; // Autoplay is on (it may still be held by an interaction)
+  // Turn wheel/drag (or keyboard) navigation on or off, one way or both
+  setAllowScrolling: (
+    allowed: boolean,
+    direction?: FullPageMoveDirection
+  ) => void;
+  setKeyboardScrolling: (
+    allowed: boolean,
+    direction?: FullPageMoveDirection
+  ) => void;
+  anchors: (string | undefined)[]; // Anchor of each Section, if any
+  navigationTooltips: (string | undefined)[]; // `navigationTooltip` of each Section
+}
+
+export interface FullPageNavigationItem {
+  index: number;
+  isActive: boolean;
+  tooltip?: string;
+  anchor?: string;
+  goTo: () => void;
+}
+
+// Props that give a custom nav tablist semantics and keyboard navigation
+export interface FullPageNavigationListProps {
+  role: "tablist";
+  "aria-label": string;
+  "aria-orientation": FullPageDirection;
+  onKeyDown: KeyboardEventHandler;
+}
+
+export interface FullPageNavigationItemProps {
+  ref: (el: HTMLElement | null) => void;
+  role: "tab";
+  "aria-label": string;
+  "aria-selected": boolean;
+  "aria-current": "true" | undefined;
+  tabIndex: number;
+  onClick: () => void;
+}
+
+export interface FullPageNavigation {
+  items: FullPageNavigationItem[];
+  currentPage: number;
+  count: number;
+  orientation: FullPageDirection; // Axis the arrow keys move along
+  goTo: (page: number, slide?: number) => void;
+  getListProps: () => FullPageNavigationListProps;
+  getItemProps: (index: number) => FullPageNavigationItemProps;
 }
 
 // Interface for the exposed ref API
 export interface FullPageRef {
   next: () => void;
   prev: () => void;
-  goTo: (page: number) => void;
+  nextSlide: () => void;
+  prevSlide: () => void;
+  goTo: (page: number, slide?: number) => void;
+  goToId: (id: string, slide?: number) => void; // By Section id or anchor
   getCurrentPage: () => number;
+  getCurrentSlide: () => number;
+  getStatus: () => FullPageStatus;
+  getPosition: () => FullPagePosition;
   getCount: () => number;
+  getSlideCount: (page?: number) => number;
+  play: () => void;
+  pause: () => void;
+  isPlaying: () => boolean;
+  setAllowScrolling: (
+    allowed: boolean,
+    direction?: FullPageMoveDirection
+  ) => void;
+  setKeyboardScrolling: (
+    allowed: boolean,
+    direction?: FullPageMoveDirection
+  ) => void;
 }
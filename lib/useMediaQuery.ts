@@ -0,0 +1,27 @@
+import { useState } from "react";
+import { useIsomorphicLayoutEffect } from "./utils";
+
+/**
+ * Live `matchMedia` subscription. A null query never matches. The first
+ * render always reports false, as the server has no media to match; the
+ * real value is applied before the browser paints.
+ */
+export const useMediaQuery = (query: string | null): boolean => {
+  const [matches, setMatches] = useState(false);
+
+  useIsomorphicLayoutEffect(() => {
+    if (query === null) {
+      setMatches(false);
+      return;
+    }
+
+    const mediaQuery = window.matchMedia(query);
+    const update = () => setMatches(mediaQuery.matches);
+
+    update();
+    mediaQuery.addEventListener("change", update);
+    return () => mediaQuery.removeEventListener("change", update);
+  }, [query]);
+
+  return matches;
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from "react";
+import { useFullPage } from "./FullPageContext";
+import { FullPageDirection, FullPageNavigation } from "./types";
+
+/**
+ * Headless navigation: everything NavigationDots is built from, for custom
+ * navs. The list is a tablist: arrow keys along `orientation` (the deck's
+ * direction by default, plus Home/End) move between items and navigate,
+ * and the active item is the only tab stop.
+ */
+export const useNavigation = (
+  orientation?: FullPageDirection
+): FullPageNavigation => {
+  const { currentPage, count, goTo, direction, anchors, navigationTooltips } =
+    useFullPage();
+  const itemRefs = useRef<(HTMLElement | null)[]>([]);
+  const listOrientation = orientation ?? direction;
+
+  // Keep keyboard focus on the active item as the page changes under it
+  useEffect(() => {
+    const activeItem = itemRefs.current[currentPage];
+    const focusedItem = itemRefs.current.find(
+      (item) => item !== null && item === document.activeElement
+    );
+    if (activeItem && focusedItem && focusedItem !== activeItem) {
+      activeItem.focus();
+    }
+  }, [currentPage]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const isVertical = listOrientation === "vertical";
+    const nextKey = isVertical ? "ArrowDown" : "ArrowRight";
+    const prevKey = isVertical ? "ArrowUp" : "ArrowLeft";
+
+    let target: number;
+    if (e.key === nextKey) {
+      target = Math.min(currentPage + 1, count - 1);
+    } else if (e.key === prevKey) {
+      target = Math.max(currentPage - 1, 0);
+    } else if (e.key === "Home") {
+      target = 0;
+    } else if (e.key === "End") {
+      target = count - 1;
+    } else {
+      return;
+    }
+
+    // Also keeps FullPage's own keyboard handler from paging a second time
+    e.preventDefault();
+    goTo(target);
+  };
+
+  const items = Array.from({ length: count }, (_, index) => ({
+    index,
+    isActive: index === currentPage,
+    tooltip: navigationTooltips[index],
+    anchor: anchors[index],
+    goTo: () => goTo(index),
+  }));
+
+  return {
+    items,
+    currentPage,
+    count,
+    orientation: listOrientation,
+    goTo,
+    getListProps: () => ({
+      role: "tablist",
+      "aria-label": "Sections",
+      "aria-orientation": listOrientation,
+      onKeyDown: handleKeyDown,
+    }),
+    getItemProps: (index) => ({
+      ref: (el) => {
+        itemRefs.current[index] = el;
+      },
+      role: "tab",
+      "aria-label": navigationTooltips[index] ?? `Go to section ${index + 1}`,
+      "aria-selected": index === currentPage,
+      "aria-current": index === currentPage ? "true" : undefined,
+      tabIndex: index === currentPage ? 0 : -1,
+      onClick: () => goTo(index),
+    }),
+  };
+};
@@ -0,0 +1,103 @@
+import React, { ReactNode, useEffect, useLayoutEffect } from "react";
+import { FullPageDirection, FullPageMoveDirection } from "./types";
+
+export const DEFAULT_EASING = "cubic-bezier(0.645, 0.045, 0.355, 1.000)";
+
+export const DEFAULT_AUTOPLAY = { interval: 5000, resumeDelay: 3000 };
+
+/**
+ * Builds the translate3d transform for a track (pages or slides).
+ * `offsetPx` is the live drag offset applied on top of the page position.
+ */
+export const getTrackTransform = (
+  index: number,
+  direction: FullPageDirection,
+  offsetPx = 0
+): string => {
+  const offsetPct = index * 100;
+  return direction === "vertical"
+    ? `translate3d(0, calc(-${offsetPct}% + ${offsetPx}px), 0)`
+    : `translate3d(calc(-${offsetPct}% + ${offsetPx}px), 0, 0)`;
+};
+
+export const getCrossDirection = (
+  direction: FullPageDirection
+): FullPageDirection => (direction === "vertical" ? "horizontal" : "vertical");
+
+// Checks the static marker a component sets (e.g. Section.isFullPageSection)
+export const isMarkedElement = (
+  child: ReactNode,
+  marker: "isFullPageSection" | "isFullPageSlide"
+): child is React.ReactElement =>
+  React.isValidElement(child) && Boolean((child.type as any)[marker]);
+
+export const countSlides = (children: ReactNode): number =>
+  React.Children.toArray(children).filter((child) =>
+    isMarkedElement(child, "isFullPageSlide")
+  ).length;
+
+// Whether `el` can still scroll along the axis in the direction of `delta`
+export const canScrollFurther = (
+  el: HTMLElement,
+  direction: FullPageDirection,
+  delta: number
+): boolean => {
+  const isVertical = direction === "vertical";
+  const position = isVertical ? el.scrollTop : el.scrollLeft;
+  const max = isVertical
+    ? el.scrollHeight - el.clientHeight
+    : el.scrollWidth - el.clientWidth;
+
+  // 1px tolerance for fractional scroll positions on zoomed/HiDPI screens
+  if (delta > 0) return position < max - 1;
+  if (delta < 0) return position > 1;
+  return false;
+};
+
+// Media query for the responsive fallback, or null when it is disabled
+export const buildResponsiveQuery = (
+  width?: number,
+  height?: number
+): string | null => {
+  const conditions = [
+    width ? `(max-width: ${width - 1}px)` : null,
+    height ? `(max-height: ${height - 1}px)` : null,
+  ].filter(Boolean);
+  return conditions.length > 0 ? conditions.join(", ") : null;
+};
+
+export const isPromiseLike = <T>(value: unknown): value is PromiseLike<T> =>
+  typeof (value as PromiseLike<T> | null)?.then === "function";
+
+// Takes an element out of the tab order and the accessibility tree
+export const setHidden = (el: Element, hidden: boolean) => {
+  el.toggleAttribute("inert", hidden);
+  if (hidden) {
+    el.setAttribute("aria-hidden", "true");
+  } else {
+    el.removeAttribute("aria-hidden");
+  }
+};
+
+// useLayoutEffect in the browser; a plain effect on the server, where layout
+// effects don't run and React warns about them
+export const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+// Joins the class names that are set
+export const cx = (...classNames: (string | false | null | undefined)[]) =>
+  classNames.filter(Boolean).join(" ");
+
+// Move directions an input may take, toggled by setAllowScrolling and
+// setKeyboardScrolling
+export type DirectionSwitches = Record<FullPageMoveDirection, boolean>;
+
+// Switches one direction, or both when none is given
+export const setDirectionSwitch = (
+  switches: DirectionSwitches,
+  allowed: boolean,
+  direction?: FullPageMoveDirection
+): DirectionSwitches =>
+  direction
+    ? { ...switches, [direction]: allowed }
+    : { next: allowed, prev: allowed };
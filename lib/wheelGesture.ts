@@ -0,0 +1,91 @@
+// Pixels per line for wheel events reported in DOM_DELTA_LINE (Firefox, some
+// mice). Matches normalize-wheel, so one 3-line notch (120px) clears the
+// default sensitivity on its own.
+const LINE_HEIGHT = 40;
+
+/**
+ * Converts a wheel delta to pixels, whatever its `deltaMode`
+ * (0 = pixels, 1 = lines, 2 = pages of `pageSize` px).
+ */
+export const normalizeWheelDelta = (
+  delta: number,
+  deltaMode: number,
+  pageSize: number
+): number => {
+  if (deltaMode === 1) return delta * LINE_HEIGHT;
+  if (deltaMode === 2) return delta * pageSize;
+  return delta;
+};
+
+export interface WheelGestureOptions {
+  sensitivity: number; // Accumulated px needed to trigger a page change
+  debounce: number; // ms of silence that ends a gesture
+}
+
+export type WheelGestureAxis = "page" | "slide";
+
+/**
+ * Groups wheel events into gestures. Each gesture triggers at most once,
+ * when its accumulated delta passes `sensitivity`; the rest of it (e.g. a
+ * trackpad's inertial tail) is swallowed.
+ *
+ * A new gesture starts after `debounce` ms without events, on a change of
+ * axis or direction, or when deltas suddenly grow again while the previous
+ * gesture was decaying (a fresh flick during inertia).
+ */
+export const createWheelGesture = () => {
+  let axis: WheelGestureAxis | null = null;
+  let accumulated = 0;
+  let consumed = false;
+  let lastTime = -Infinity;
+  let recent: number[] = []; // Last few magnitudes, to spot a new flick
+
+  return {
+    // Returns 1 / -1 when the gesture triggers forward / backward, else 0
+    update(
+      nextAxis: WheelGestureAxis,
+      delta: number,
+      time: number,
+      { sensitivity, debounce }: WheelGestureOptions
+    ): 1 | -1 | 0 {
+      if (delta === 0) return 0;
+
+      const magnitude = Math.abs(delta);
+      const average =
+        recent.length > 0
+          ? recent.reduce((sum, value) => sum + value, 0) / recent.length
+          : 0;
+      const isReversed =
+        accumulated !== 0 && Math.sign(delta) !== Math.sign(accumulated);
+      const isDecaying =
+        recent.length >= 3 &&
+        recent[recent.length - 1] <= recent[recent.length - 2];
+      const isNewFlick = consumed && isDecaying && magnitude > average * 2;
+
+      if (
+        time - lastTime > debounce ||
+        nextAxis !== axis ||
+        isReversed ||
+        isNewFlick
+      ) {
+        axis = nextAxis;
+        accumulated = 0;
+        consumed = false;
+        recent = [];
+      }
+
+      lastTime = time;
+      recent = [...recent.slice(-4), magnitude];
+      accumulated += delta;
+
+      if (consumed || Math.abs(accumulated) < sensitivity) return 0;
+      consumed = true;
+      return accumulated > 0 ? 1 : -1;
+    },
+
+    // Marks the current gesture as used up (e.g. it scrolled section content)
+    consume() {
+      consumed = true;
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { JSDOM } from "jsdom";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+type Lib = typeof import("../lib");
+type ReactModule = typeof import("react");
+
+// The same deck on both sides: every prop that depends on the browser once
+// mounted (hash, media query, render window) but must not change the markup
+const renderDeck = (React: ReactModule, { FullPage, Section, Slide }: Lib) => (
+  <FullPage
+    initialPage={1}
+    anchors={["intro", "features", "gallery"]}
+    responsiveWidth={768}
+    renderWindow={1}
+  >
+    <Section>Intro</Section>
+    <Section>Features</Section>
+    <Section>
+      <Slide>Slide 1</Slide>
+      <Slide>Slide 2</Slide>
+    </Section>
+  </FullPage>
+);
+
+const globalKeys = [
+  "window",
+  "document",
+  "navigator",
+  "HTMLElement",
+  "Element",
+  "Node",
+  "requestAnimationFrame",
+  "cancelAnimationFrame",
+  "IS_REACT_ACT_ENVIRONMENT",
+] as const;
+
+afterEach(() => {
+  for (const key of globalKeys) {
+    delete (globalThis as Record<string, unknown>)[key];
+  }
+  vi.restoreAllMocks();
+  vi.resetModules();
+});
+
+describe("server rendering", () => {
+  it("renders on the server and hydrates without warnings", async () => {
+    // --- Server ---
+    expect(typeof window).toBe("undefined");
+    const serverReact = await import("react");
+    const { renderToString } = await import("react-dom/server");
+    const serverLib = await import("../lib");
+    const html = renderToString(renderDeck(serverReact, serverLib));
+
+    expect(html).toContain("Section 2 of 3");
+
+    // --- Client ---
+    const dom = new JSDOM(`<div id="root">${html}</div>`, {
+      url: "http://localhost/#gallery/1",
+      pretendToBeVisual: true,
+    });
+    // jsdom has no media queries; nothing matches, as on a wide screen
+    dom.window.matchMedia = (query: string) =>
+      ({
+        matches: false,
+        media: query,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+      } as unknown as MediaQueryList);
+
+    Object.assign(globalThis, {
+      window: dom.window,
+      document: dom.window.document,
+      navigator: dom.window.navigator,
+      HTMLElement: dom.window.HTMLElement,
+      Element: dom.window.Element,
+      Node: dom.window.Node,
+      requestAnimationFrame: dom.window.requestAnimationFrame,
+      cancelAnimationFrame: dom.window.cancelAnimationFrame,
+      IS_REACT_ACT_ENVIRONMENT: true,
+    });
+
+    // Fresh modules, so the library sees the browser as it would on load
+    vi.resetModules();
+    const clientReact = await import("react");
+    const { hydrateRoot } = await import("react-dom/client");
+    const clientLib = await import("../lib");
+
+    const consoleError = vi.spyOn(console, "error");
+    const recoverableErrors: unknown[] = [];
+    const container = dom.window.document.getElementById("root")!;
+
+    let root: ReturnType<typeof hydrateRoot> | undefined;
+    await clientReact.act(async () => {
+      root = hydrateRoot(container, renderDeck(clientReact, clientLib), {
+        onRecoverableError: (error) => recoverableErrors.push(error),
+      });
+    });
+
+    expect(recoverableErrors).toEqual([]);
+    expect(consoleError).not.toHaveBeenCalled();
+    // The deep link is applied once hydrated
+    expect(container.textContent).toContain("Section 3 of 3, slide 2 of 2");
+
+    // Stop pending frames before the globals go away
+    await clientReact.act(async () => root?.unmount());
+    dom.window.close();
+  });
+});
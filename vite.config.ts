@@ -34,6 +34,7 @@ export default defineConfig(({ mode }) => {
         name: "full-scroller",
         formats: ["es", "cjs"], // 输出 ESM 和 CJS 两种格式
         fileName: (format) => `index.${format === "es" ? "js" : "cjs"}`,
+        cssFileName: "style", // 样式输出为 dist/style.css，对应 package.json 的 ./style.css 导出
       },
       rollupOptions: {
         // 确保 React 不会被打包进去
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}"],
+    // The server render must not see a DOM; tests build their own with jsdom
+    environment: "node",
+  },
+});